@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_BADGE_COLORS, getBadgeColor, parseBadgeColors, renderBadge } from '../src/badge';
+import { calculateMetric } from '../src/metrics';
+import { CoverageSummary } from '../src/types';
+
+const summary: CoverageSummary = {
+  statements: calculateMetric(90, 100),
+  branches: calculateMetric(55, 100),
+  functions: calculateMetric(10, 10),
+  lines: calculateMetric(823, 1000),
+};
+
+describe('Coverage Badge', () => {
+  it('parses color stops in ascending order', () => {
+    expect(parseBadgeColors(['80: green', '0:#e05d44', '50: dfb317'])).toEqual([
+      { min: 0, color: '#e05d44' },
+      { min: 50, color: 'dfb317' },
+      { min: 80, color: 'green' },
+    ]);
+    expect(parseBadgeColors([])).toBe(DEFAULT_BADGE_COLORS);
+    expect(() => parseBadgeColors(['80 green'])).toThrow('Invalid badge-colors entry');
+    expect(() => parseBadgeColors(['80: not-a-color'])).toThrow('Invalid badge-colors entry');
+  });
+
+  it('picks the highest stop reached', () => {
+    expect(getBadgeColor(49.9, DEFAULT_BADGE_COLORS)).toBe('red');
+    expect(getBadgeColor(82.3, DEFAULT_BADGE_COLORS)).toBe('yellowgreen');
+    expect(getBadgeColor(100, DEFAULT_BADGE_COLORS)).toBe('brightgreen');
+  });
+
+  it('renders the configured metric and label', () => {
+    const svg = renderBadge(summary, {
+      path: 'badge.svg',
+      metric: 'branches',
+      label: 'branches & more',
+      colors: DEFAULT_BADGE_COLORS,
+    });
+
+    expect(svg).toContain('aria-label="branches &amp; more: 55.0%"');
+    expect(svg).toContain('fill="#fe7d37"');
+    expect(svg.startsWith('<svg')).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { createCheckRun } from '../src/check';
+import { calculateMetric } from '../src/metrics';
+import { ActionInputs, CoverageReport, GitContext } from '../src/types';
+
+vi.mock('@actions/github', () => ({ getOctokit: vi.fn() }));
+
+describe('Check Run', () => {
+  const metric = calculateMetric(8, 10);
+  const report = {
+    timestamp: '2024-01-01T00:00:00.000Z',
+    format: 'lcov',
+    baselineCommitSha: '',
+    currentCommitSha: 'def5678abc',
+    current: { statements: metric, branches: metric, functions: metric, lines: metric },
+    thresholds: { statements: 0, branches: 0, functions: 0, lines: 0 },
+    uncoveredChanges: Array.from({ length: 120 }, (_, i) => ({
+      path: 'src/index.ts',
+      startLine: i + 1,
+      endLine: i + 1,
+      kind: 'added',
+    })),
+  } as CoverageReport;
+  const inputs = {
+    checkRunName: 'Coverage',
+    baselineAliases: ['coverage-production'],
+    missingBaseline: 'warn',
+    failOnRegression: true,
+  } as ActionInputs;
+  const context = { repository: 'owner/repo', commitSha: 'def5678abc' } as GitContext;
+
+  const token = process.env.GITHUB_TOKEN;
+  const checks = {
+    create: vi.fn(async () => ({ data: { id: 1, html_url: 'https://github.com/checks/1' } })),
+    update: vi.fn(async () => ({})),
+  };
+
+  beforeEach(() => {
+    process.env.GITHUB_TOKEN = 'token';
+    vi.mocked(github.getOctokit).mockReturnValue({ rest: { checks } } as unknown as ReturnType<
+      typeof github.getOctokit
+    >);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    if (token === undefined) {
+      delete process.env.GITHUB_TOKEN;
+    } else {
+      process.env.GITHUB_TOKEN = token;
+    }
+  });
+
+  it('sends annotations in batches of 50', async () => {
+    await createCheckRun(report, inputs, context, {});
+
+    expect(checks.create).toHaveBeenCalledOnce();
+    expect(checks.update).toHaveBeenCalledTimes(2);
+    expect(checks.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        check_run_id: 1,
+        output: expect.objectContaining({ annotations: expect.objectContaining({ length: 20 }) }),
+      }),
+    );
+  });
+
+  it('warns and stops when adding annotations fails', async () => {
+    const warning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+    checks.update.mockRejectedValueOnce(new Error('Resource not accessible by integration'));
+
+    try {
+      await expect(createCheckRun(report, inputs, context, {})).resolves.toBeUndefined();
+
+      expect(checks.update).toHaveBeenCalledOnce();
+      expect(warning).toHaveBeenCalledWith(
+        expect.stringMatching(/stopping at 50 of 120: Resource not accessible by integration$/),
+      );
+    } finally {
+      warning.mockRestore();
+    }
+  });
+});
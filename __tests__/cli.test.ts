@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { parseCliArgs } from '../src/args';
+import { deriveLocalContext } from '../src/context';
+
+describe('CLI', () => {
+  describe('parseCliArgs', () => {
+    it('maps flags to action inputs', () => {
+      const options = parseCliArgs([
+        '--path',
+        'coverage/lcov.info',
+        '--baseline-path',
+        'baseline/lcov.info',
+        '--exclude',
+        '**/*.stories.tsx',
+        '--exclude',
+        'src/generated/**',
+        '--threshold-branches',
+        '2',
+      ]);
+
+      expect(options.inputs).toEqual({
+        path: 'coverage/lcov.info',
+        'baseline-path': 'baseline/lcov.info',
+        exclude: '**/*.stories.tsx\nsrc/generated/**',
+        'threshold-branches': '2',
+        'upload-results': 'false',
+      });
+      expect(options.output).toBe('markdown');
+      expect(options.help).toBe(false);
+    });
+
+    it('reads context and output options', () => {
+      const options = parseCliArgs([
+        '--commit-sha',
+        'abc1234',
+        '--pr-number',
+        '42',
+        '--output',
+        'json',
+        '--json-file',
+        'out/report.json',
+      ]);
+
+      expect(options.context).toMatchObject({ commitSha: 'abc1234', prNumber: 42 });
+      expect(options.output).toBe('json');
+      expect(options.jsonFile).toBe('out/report.json');
+    });
+
+    it('rejects unknown flags and outputs', () => {
+      expect(() => parseCliArgs(['--comment', 'true'])).toThrow();
+      expect(() => parseCliArgs(['--output', 'html'])).toThrow('Invalid output: html');
+    });
+  });
+
+  describe('deriveLocalContext', () => {
+    const saved = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...saved };
+    });
+
+    it('prefers explicit values over CI variables', () => {
+      process.env.GIT_COMMIT = 'jenkins-sha';
+      process.env.CHANGE_ID = '7';
+      process.env.CHANGE_TARGET = 'main';
+
+      const context = deriveLocalContext({ commitSha: 'flag-sha', repository: 'org/app' });
+
+      expect(context).toMatchObject({
+        repository: 'org/app',
+        commitSha: 'flag-sha',
+        prNumber: 7,
+        baseSha: 'origin/main',
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as github from '@actions/github';
+import { buildCommentMarker, findMarkedComments, postPRComment } from '../src/comment';
+import { calculateMetric } from '../src/metrics';
+import { ActionInputs, CommentMode, CoverageReport, GitContext } from '../src/types';
+
+vi.mock('@actions/github', () => ({ getOctokit: vi.fn() }));
+
+describe('PR Comment', () => {
+  it('finds previous comments by their marker, not their header', () => {
+    const comments = [
+      { id: 1, body: `${buildCommentMarker('coverage', 'pass')}\n## Coverage Report` },
+      { id: 2, body: '## Coverage Report\nQuoted by a reviewer' },
+      { id: 3, body: `${buildCommentMarker('coverage-e2e', 'fail')}\n## Coverage Report` },
+      { id: 4, body: null },
+      { id: 5, body: `${buildCommentMarker('coverage', 'fail')}\n## Coverage Report` },
+    ];
+
+    expect(findMarkedComments(comments, 'coverage', '## Coverage Report').map((c) => c.id)).toEqual(
+      [1, 5],
+    );
+    expect(
+      findMarkedComments(comments, 'coverage-e2e', '## Coverage Report').map((c) => c.id),
+    ).toEqual([3]);
+  });
+
+  it('finds comments posted before markers by bot author and header', () => {
+    const bot = { type: 'Bot' };
+    const comments = [
+      { id: 1, body: '## Coverage Report\n| Lines |', user: bot },
+      { id: 2, body: '## Coverage Report\nQuoted by a reviewer', user: { type: 'User' } },
+      {
+        id: 3,
+        body: `${buildCommentMarker('coverage-e2e', 'pass')}\n## Coverage Report`,
+        user: bot,
+      },
+    ];
+
+    expect(findMarkedComments(comments, 'coverage', '## Coverage Report').map((c) => c.id)).toEqual(
+      [1],
+    );
+  });
+
+  it('keeps the marker hidden when rendered', () => {
+    expect(buildCommentMarker('coverage', 'pass')).toBe(
+      '<!-- compare-coverage id="coverage" result="pass" -->',
+    );
+  });
+
+  describe('comment modes', () => {
+    const metric = calculateMetric(8, 10);
+    const report = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      format: 'lcov',
+      baselineCommitSha: '',
+      currentCommitSha: 'def5678abc',
+      current: { statements: metric, branches: metric, functions: metric, lines: metric },
+      thresholds: { statements: 0, branches: 0, functions: 0, lines: 0 },
+    } as CoverageReport;
+    const context = { repository: 'owner/repo', prNumber: 7 } as GitContext;
+    const inputs = (commentMode: CommentMode) =>
+      ({
+        commentMode,
+        commentId: 'coverage',
+        commentHeader: '## Coverage Report',
+        baselineAliases: ['coverage-production'],
+        missingBaseline: 'warn',
+        failOnRegression: true,
+      }) as ActionInputs;
+
+    // The report has no baseline, so its marker records no-baseline
+    const comments = [
+      { id: 1, node_id: 'C1', body: `${buildCommentMarker('coverage', 'fail')}\nold` },
+      { id: 2, node_id: 'C2', body: `${buildCommentMarker('coverage', 'no-baseline')}\nold` },
+    ];
+
+    let octokit: ReturnType<typeof createOctokit>;
+    const token = process.env.GITHUB_TOKEN;
+
+    function createOctokit(existing: typeof comments) {
+      return {
+        paginate: vi.fn(async () => existing),
+        graphql: vi.fn(async () => ({})),
+        rest: {
+          issues: {
+            listComments: vi.fn(),
+            createComment: vi.fn(async () => ({ data: { id: 3 } })),
+            updateComment: vi.fn(async () => ({})),
+            deleteComment: vi.fn(async () => ({})),
+          },
+        },
+      };
+    }
+
+    function useComments(existing: typeof comments) {
+      octokit = createOctokit(existing);
+      vi.mocked(github.getOctokit).mockReturnValue(
+        octokit as unknown as ReturnType<typeof github.getOctokit>,
+      );
+    }
+
+    beforeEach(() => {
+      process.env.GITHUB_TOKEN = 'token';
+      useComments(comments);
+    });
+
+    afterEach(() => {
+      if (token === undefined) {
+        delete process.env.GITHUB_TOKEN;
+      } else {
+        process.env.GITHUB_TOKEN = token;
+      }
+    });
+
+    it('update edits the latest comment', async () => {
+      await postPRComment(report, inputs('update'), context, {});
+
+      expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 2 }),
+      );
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it('update creates a comment when there is none yet', async () => {
+      useComments([]);
+
+      await postPRComment(report, inputs('update'), context, {});
+
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          issue_number: 7,
+          body: expect.stringMatching(
+            /^<!-- compare-coverage id="coverage" result="no-baseline" -->\n## Coverage Report/,
+          ),
+        }),
+      );
+    });
+
+    it('recreate deletes every previous comment before posting', async () => {
+      await postPRComment(report, inputs('recreate'), context, {});
+
+      const { deleteComment } = octokit.rest.issues;
+      expect(deleteComment).toHaveBeenCalledTimes(2);
+      expect(deleteComment).toHaveBeenNthCalledWith(1, {
+        owner: 'owner',
+        repo: 'repo',
+        comment_id: 1,
+      });
+      expect(deleteComment).toHaveBeenNthCalledWith(2, {
+        owner: 'owner',
+        repo: 'repo',
+        comment_id: 2,
+      });
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledOnce();
+    });
+
+    it('minimize hides every previous comment before posting', async () => {
+      await postPRComment(report, inputs('minimize'), context, {});
+
+      expect(octokit.graphql).toHaveBeenCalledTimes(2);
+      expect(octokit.graphql).toHaveBeenNthCalledWith(1, expect.any(String), { id: 'C1' });
+      expect(octokit.graphql).toHaveBeenNthCalledWith(2, expect.any(String), { id: 'C2' });
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledOnce();
+    });
+
+    it('on-change only posts when the result differs from the latest comment', async () => {
+      await postPRComment(report, inputs('on-change'), context, {});
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+
+      useComments(comments.slice(0, 1));
+      await postPRComment(report, inputs('on-change'), context, {});
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledOnce();
+      expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    });
+  });
+});
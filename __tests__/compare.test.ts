@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkMinimums,
+  compareCoverage,
+  determineResult,
+  evaluatePolicy,
+  formatMinimums,
+  formatThresholds,
+  getFailureReasons,
+  skipsMissingBaseline,
+} from '../src/compare';
+import { calculateMetric } from '../src/metrics';
+import { ActionInputs, CoverageReport, MetricThresholds } from '../src/types';
+import { coverage, file } from './helpers';
+
+const noRegression: MetricThresholds = { statements: 0, branches: 0, functions: 0, lines: 0 };
+
+describe('Coverage Comparison', () => {
+  describe('Metric thresholds', () => {
+    const baseline = coverage([file('src/a.ts', 80, 100)]);
+    const current = coverage([
+      {
+        ...file('src/a.ts', 79, 100),
+        branches: calculateMetric(70, 100),
+      },
+    ]);
+
+    it('applies each metric its own threshold', () => {
+      const comparison = compareCoverage(current, baseline, {
+        thresholds: { statements: 1, branches: 5, functions: 0, lines: 1 },
+      });
+
+      const statuses = Object.fromEntries(comparison.metrics.map((m) => [m.metric, m.status]));
+      expect(statuses).toEqual({
+        statements: 'unchanged',
+        branches: 'regressed',
+        functions: 'regressed',
+        lines: 'unchanged',
+      });
+      expect(comparison.metrics.find((m) => m.metric === 'branches')!.threshold).toBe(5);
+      expect(comparison.overallStatus).toBe('regressed');
+    });
+
+    it('passes when every metric is within its threshold', () => {
+      const comparison = compareCoverage(current, baseline, {
+        thresholds: { statements: 1, branches: 10, functions: 1, lines: 1 },
+      });
+
+      expect(comparison.overallStatus).toBe('unchanged');
+    });
+
+    it('formats thresholds compactly', () => {
+      expect(formatThresholds(noRegression)).toBe('0%');
+      expect(formatThresholds({ ...noRegression, branches: 2 })).toBe(
+        'Statements 0% · Branches 2% · Functions 0% · Lines 0%',
+      );
+    });
+  });
+
+  describe('File comparison', () => {
+    const baseline = coverage([
+      file('src/kept.ts', 8, 10),
+      file('src/same.ts', 5, 10),
+      file('src/deleted.ts', 3, 4),
+    ]);
+    const current = coverage([
+      file('src/kept.ts', 6, 10),
+      file('src/same.ts', 5, 10),
+      file('src/new-tested.ts', 9, 10),
+      file('src/new-untested.ts', 1, 500),
+    ]);
+
+    it('reports changed, added and removed files', () => {
+      const comparison = compareCoverage(current, baseline, { thresholds: noRegression });
+
+      expect(comparison.files.map((f) => [f.path, f.status])).toEqual([
+        ['src/kept.ts', 'regressed'],
+        ['src/new-untested.ts', 'added'],
+        ['src/new-tested.ts', 'added'],
+        ['src/deleted.ts', 'removed'],
+      ]);
+
+      const added = comparison.files[1];
+      expect(added.current!.lines.total).toBe(500);
+      expect(added.baseline).toBeUndefined();
+      expect(added.belowMinimum).toBeUndefined();
+
+      const removed = comparison.files[3];
+      expect(removed.baseline!.lines.percentage).toBe(75);
+      expect(removed.current).toBeUndefined();
+    });
+
+    it('flags new files below the minimum coverage', () => {
+      const comparison = compareCoverage(current, baseline, {
+        thresholds: noRegression,
+        newFileMinCoverage: 80,
+      });
+
+      const flagged = comparison.files.filter((f) => f.belowMinimum).map((f) => f.path);
+      expect(flagged).toEqual(['src/new-untested.ts']);
+    });
+
+    it('matches paths case-insensitively with ignoreCase and keeps their case', () => {
+      const renamed = coverage([file('src/Kept.ts', 6, 10)]);
+      const options = { thresholds: noRegression, ignoreCase: true };
+
+      expect(compareCoverage(renamed, baseline, options).files.map((f) => f.path)).toEqual([
+        'src/Kept.ts',
+        'src/deleted.ts',
+        'src/same.ts',
+      ]);
+      expect(compareCoverage(renamed, baseline, { thresholds: noRegression }).files).toHaveLength(
+        4,
+      );
+    });
+  });
+
+  describe('Minimum coverage', () => {
+    const current = coverage([file('src/a.ts', 382, 1000)]);
+
+    it('is skipped when no minimums are configured', () => {
+      expect(checkMinimums(current.summary, {})).toBeUndefined();
+    });
+
+    it('fails metrics below their minimum regardless of the baseline', () => {
+      const minimums = checkMinimums(current.summary, { lines: 50, branches: 30 })!;
+
+      expect(minimums.passed).toBe(false);
+      expect(minimums.checks.map((c) => [c.metric, c.passed])).toEqual([
+        ['lines', false],
+        ['branches', true],
+      ]);
+      expect(formatMinimums(minimums)).toBe('Lines 50% · Branches 30%');
+
+      const report = {
+        comparison: compareCoverage(current, current, { thresholds: noRegression }),
+        minimums,
+      } as CoverageReport;
+      const inputs = { failOnRegression: false } as ActionInputs;
+
+      expect(getFailureReasons(report, inputs)).toEqual([
+        'Minimum coverage not met: lines 38.2% < 50%',
+      ]);
+    });
+  });
+
+  describe('Policy rules', () => {
+    const baseline = coverage([file('src/core/a.ts', 90, 100)]);
+    const current = coverage([file('src/core/a.ts', 70, 100)]);
+    const policy = {
+      rules: [
+        {
+          paths: ['src/core/**'],
+          thresholds: { lines: 1 },
+          minimums: { lines: 80 },
+          ignore: false,
+        },
+      ],
+    };
+
+    it('only fails on rule thresholds when fail-on-regression is set', () => {
+      const report = {
+        comparison: compareCoverage(current, baseline, { thresholds: noRegression }),
+        policy: evaluatePolicy(current, baseline, policy),
+      } as CoverageReport;
+
+      expect(getFailureReasons(report, { failOnRegression: false } as ActionInputs)).toEqual([
+        'Coverage policy violated: src/core/**: lines 70.0% < 80% minimum',
+      ]);
+      expect(getFailureReasons(report, { failOnRegression: true } as ActionInputs)).toEqual([
+        expect.stringMatching(/^Coverage regressed/),
+        'Coverage policy violated: src/core/**: lines -20.0% (threshold: 1%)',
+        'Coverage policy violated: src/core/**: lines 70.0% < 80% minimum',
+      ]);
+    });
+  });
+
+  describe('Missing baseline', () => {
+    const current = coverage([file('src/a.ts', 382, 1000)]);
+    const report = { current: current.summary } as CoverageReport;
+
+    it('reports no-baseline unless another gate fails', () => {
+      expect(determineResult(report)).toBe('no-baseline');
+      expect(
+        determineResult({ ...report, minimums: checkMinimums(current.summary, { lines: 50 }) }),
+      ).toBe('fail');
+    });
+
+    it('fails only when configured to', () => {
+      const inputs = { failOnRegression: true, missingBaseline: 'warn' } as ActionInputs;
+
+      expect(getFailureReasons(report, inputs)).toEqual([]);
+      expect(getFailureReasons(report, { ...inputs, missingBaseline: 'fail' })).toEqual([
+        'No baseline coverage found to compare against',
+      ]);
+    });
+
+    it('skips posting and uploading only with skip', () => {
+      const skip = { missingBaseline: 'skip' } as ActionInputs;
+
+      expect(skipsMissingBaseline(report, skip)).toBe(true);
+      expect(skipsMissingBaseline(report, { missingBaseline: 'warn' } as ActionInputs)).toBe(false);
+      expect(
+        skipsMissingBaseline(
+          {
+            ...report,
+            comparison: compareCoverage(current, current, { thresholds: noRegression }),
+          },
+          skip,
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  requestPrepareBatchDownload,
+  downloadFilesWithPresignedUrls,
+} from '@bffless/artifact-client';
+import { downloadBaseline } from '../src/download';
+import { getFirstParentAncestors, getMergeBase } from '../src/git';
+import { ActionInputs, BaselineResult, GitContext } from '../src/types';
+
+vi.mock('@bffless/artifact-client', () => ({
+  requestPrepareBatchDownload: vi.fn(),
+  downloadFilesWithPresignedUrls: vi.fn(),
+  downloadFilesDirect: vi.fn(),
+}));
+
+vi.mock('../src/git', () => ({
+  getMergeBase: vi.fn(),
+  getFirstParentAncestors: vi.fn(),
+}));
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'lcov.info');
+
+describe('Baseline Download', () => {
+  const context = { repository: 'owner/repo', commitSha: 'head', baseSha: 'base' } as GitContext;
+  const inputs = {
+    path: 'coverage',
+    format: 'auto',
+    apiUrl: 'https://bffless.example.com',
+    apiKey: 'key',
+    repository: 'owner/repo',
+    baselineStrategy: 'merge-base',
+    baselineAliases: ['coverage-main', 'coverage-production'],
+  } as ActionInputs;
+
+  let results: BaselineResult[] = [];
+
+  /**
+   * Serve coverage for the given commits and aliases, fail for the ones mapped to an error
+   * and report no files for everything else
+   */
+  function serveBaselines(available: string[], failing: string[] = []): void {
+    vi.mocked(requestPrepareBatchDownload).mockImplementation(async (_url, _key, request) => {
+      const key = request.alias ?? request.commitSha ?? '';
+      if (failing.includes(key)) throw new Error(`Server error for ${key}`);
+      if (!available.includes(key)) return { files: [] } as never;
+      return {
+        files: [{ path: 'lcov.info' }],
+        commitSha: request.commitSha ?? `uploaded-${key}`,
+        presignedUrlsSupported: true,
+      } as never;
+    });
+  }
+
+  function requestedLookups(): string[] {
+    return vi
+      .mocked(requestPrepareBatchDownload)
+      .mock.calls.map(([, , request]) => request.alias ?? request.commitSha ?? '');
+  }
+
+  async function download(): Promise<BaselineResult> {
+    const result = await downloadBaseline(inputs, context);
+    results.push(result);
+    return result;
+  }
+
+  beforeEach(() => {
+    vi.mocked(getMergeBase).mockReturnValue('c1');
+    vi.mocked(getFirstParentAncestors).mockReturnValue(['c1', 'c2', 'c3']);
+    vi.mocked(downloadFilesWithPresignedUrls).mockImplementation(async (_files, outputDir) => {
+      fs.copyFileSync(FIXTURE, path.join(outputDir, 'lcov.info'));
+      return { success: ['lcov.info'], failed: [] };
+    });
+  });
+
+  afterEach(() => {
+    vi.mocked(requestPrepareBatchDownload).mockReset();
+    for (const result of results) {
+      if (result.outputDir) fs.rmSync(result.outputDir, { recursive: true, force: true });
+    }
+    results = [];
+  });
+
+  it('looks up the merge-base against the PR head', async () => {
+    serveBaselines(['c1']);
+
+    await download();
+
+    expect(getMergeBase).toHaveBeenCalledWith('base', 'head');
+    expect(getFirstParentAncestors).toHaveBeenCalledWith('c1', expect.any(Number));
+  });
+
+  it('uses the merge-base when it has a baseline', async () => {
+    serveBaselines(['c1', 'c2', 'coverage-main']);
+
+    const result = await download();
+
+    expect(requestedLookups()).toEqual(['c1']);
+    expect(result.commitSha).toBe('c1');
+    expect(result.mergeBase).toBe('c1');
+    expect(result.alias).toBeUndefined();
+    expect(result.coverage).toBeDefined();
+  });
+
+  it('skips failing and empty commits until an ancestor has a baseline', async () => {
+    serveBaselines(['c3', 'coverage-main'], ['c1']);
+
+    const result = await download();
+
+    expect(requestedLookups()).toEqual(['c1', 'c2', 'c3']);
+    expect(result.commitSha).toBe('c3');
+    expect(result.mergeBase).toBe('c1');
+    expect(result.alias).toBeUndefined();
+  });
+
+  it('falls back to each alias in order after the ancestors', async () => {
+    serveBaselines(['coverage-production'], ['coverage-main']);
+
+    const result = await download();
+
+    expect(requestedLookups()).toEqual(['c1', 'c2', 'c3', 'coverage-main', 'coverage-production']);
+    expect(result.commitSha).toBe('uploaded-coverage-production');
+    expect(result.alias).toBe('coverage-production');
+    expect(result.mergeBase).toBe('c1');
+  });
+
+  it('falls back to the aliases when the merge-base cannot be found', async () => {
+    vi.mocked(getMergeBase).mockImplementation(() => {
+      throw new Error('Failed to find the merge-base');
+    });
+    serveBaselines(['c1', 'coverage-main']);
+
+    const result = await download();
+
+    expect(requestedLookups()).toEqual(['coverage-main']);
+    expect(result.alias).toBe('coverage-main');
+    expect(result.mergeBase).toBeUndefined();
+  });
+
+  it('returns an empty baseline when nothing has coverage', async () => {
+    serveBaselines([]);
+
+    const result = await download();
+
+    expect(requestedLookups()).toEqual(['c1', 'c2', 'c3', 'coverage-main', 'coverage-production']);
+    expect(result).toMatchObject({ commitSha: '', mergeBase: 'c1', fileCount: 0, files: [] });
+    expect(result.alias).toBeUndefined();
+    expect(result.coverage).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCoverage } from '../src/parsers';
+import { filterCoverage } from '../src/filter';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+describe('File Filters', () => {
+  it('returns coverage unchanged without filters', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'cobertura.xml'), 'utf-8');
+    const coverage = await parseCoverage(content, 'cobertura.xml', 'cobertura');
+
+    expect(filterCoverage(coverage, [], [])).toBe(coverage);
+  });
+
+  it('recomputes the summary from the remaining files', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'cobertura.xml'), 'utf-8');
+    const coverage = await parseCoverage(content, 'cobertura.xml', 'cobertura');
+    const utils = coverage.files.find((f) => f.path === 'src/utils.ts')!;
+
+    const filtered = filterCoverage(coverage, [], ['**/index.ts']);
+
+    expect(filtered.files.map((f) => f.path)).toEqual(['src/utils.ts']);
+    expect(filtered.summary.lines).toEqual(utils.lines);
+    expect(filtered.summary.lines.total).not.toBe(coverage.summary.lines.total);
+  });
+
+  it('keeps only included files that are not excluded', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+    const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+
+    expect(filterCoverage(coverage, ['src/**'], []).files).toHaveLength(2);
+    expect(filterCoverage(coverage, ['src/**'], ['src/utils.ts']).files.map((f) => f.path)).toEqual(
+      ['src/index.ts'],
+    );
+    expect(filterCoverage(coverage, ['lib/**'], []).files).toHaveLength(0);
+  });
+
+  it('matches globs case-insensitively with ignoreCase', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+    const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+
+    expect(filterCoverage(coverage, [], ['SRC/Utils.ts']).files).toHaveLength(2);
+    expect(filterCoverage(coverage, [], ['SRC/Utils.ts'], true).files.map((f) => f.path)).toEqual([
+      'src/index.ts',
+    ]);
+  });
+});
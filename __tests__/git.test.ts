@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getFirstParentAncestors, getMergeBase } from '../src/git';
+
+describe('Git History', () => {
+  let repoDir: string;
+  const commits: Record<string, string> = {};
+
+  function git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+  }
+
+  function commit(name: string): void {
+    git('commit', '--allow-empty', '-q', '-m', name);
+    commits[name] = git('rev-parse', 'HEAD');
+  }
+
+  beforeAll(() => {
+    // main: m1 - m2 - m3 - merge(feature-a) - m4
+    // pr branches from m3 and gets a commit of its own
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-git-'));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    commit('m1');
+    commit('m2');
+    git('checkout', '-q', '-b', 'feature-a');
+    commit('a1');
+    git('checkout', '-q', 'main');
+    commit('m3');
+    git('checkout', '-q', '-b', 'pr');
+    commit('p1');
+    git('checkout', '-q', 'main');
+    git('merge', '-q', '--no-ff', '-m', 'merge', 'feature-a');
+    commits.merge = git('rev-parse', 'HEAD');
+    commit('m4');
+    git('checkout', '-q', 'pr');
+    // Point git at the test repository without changing the working directory
+    process.env.GIT_DIR = path.join(repoDir, '.git');
+  });
+
+  afterAll(() => {
+    delete process.env.GIT_DIR;
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('finds the commit the branch started from', () => {
+    expect(getMergeBase('main')).toBe(commits.m3);
+  });
+
+  it('walks first-parent ancestors only', () => {
+    expect(getFirstParentAncestors('main', 10)).toEqual([
+      commits.m4,
+      commits.merge,
+      commits.m3,
+      commits.m2,
+      commits.m1,
+    ]);
+    expect(getFirstParentAncestors(commits.m3, 2)).toEqual([commits.m3, commits.m2]);
+  });
+
+  it('explains how to fix a missing base commit', () => {
+    expect(() => getMergeBase('does-not-exist')).toThrow(/fetch-depth: 0/);
+  });
+
+  it('finds the branch point of the PR head when HEAD is a merge commit', () => {
+    // pull_request runs check out a merge of the PR into the latest base
+    git('checkout', '-q', '-b', 'pr-merge', 'main');
+    git('merge', '-q', '--no-ff', '-m', 'pr merge', 'pr');
+    try {
+      expect(getMergeBase('main')).toBe(commits.m4);
+      expect(getMergeBase('main', commits.p1)).toBe(commits.m3);
+    } finally {
+      git('checkout', '-q', 'pr');
+    }
+  });
+});
@@ -0,0 +1,17 @@
+import { calculateMetric, summarizeFiles } from '../src/metrics';
+import { FileCoverage, NormalizedCoverage } from '../src/types';
+
+/**
+ * Build a file entry with the same covered/total for every metric
+ */
+export function file(path: string, covered: number, total: number): FileCoverage {
+  const metric = calculateMetric(covered, total);
+  return { path, statements: metric, branches: metric, functions: metric, lines: metric };
+}
+
+/**
+ * Build a report from file entries, summarizing them
+ */
+export function coverage(files: FileCoverage[]): NormalizedCoverage {
+  return { format: 'lcov', summary: summarizeFiles(files), files };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildHtmlReport } from '../src/html';
+import { compareCoverage } from '../src/compare';
+import { CoverageReport } from '../src/types';
+import { coverage, file } from './helpers';
+
+describe('HTML Report', () => {
+  const baseline = coverage([file('src/kept.ts', 8, 10), file('src/deleted.ts', 3, 4)]);
+  const current = coverage([file('src/kept.ts', 6, 10), file('src/<new>.ts', 9, 10)]);
+
+  const report = {
+    timestamp: '2024-01-01T00:00:00.000Z',
+    baselineAlias: 'coverage-production',
+    baselineCommitSha: 'abc1234def',
+    currentCommitSha: 'def5678abc',
+    baseline: baseline.summary,
+    current: current.summary,
+    comparison: compareCoverage(current, baseline, {
+      thresholds: { statements: 0, branches: 0, functions: 0, lines: 0 },
+    }),
+  } as CoverageReport;
+
+  it('renders a self-contained page with every changed file and metric', () => {
+    const html = buildHtmlReport(report);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toMatch(/<(?:link|script) [^>]*(?:href|src)=/);
+    expect(html).toContain('<code>coverage-production</code> @ <code>abc1234</code>');
+    expect(html).toContain('<h2>Changed files (3)</h2>');
+    expect(html).toContain('<td>src/kept.ts</td><td class="regressed">regressed</td>');
+    expect(html).toContain('<td>src/&lt;new&gt;.ts</td><td class="added">added</td>');
+    expect(html).toContain('<td>src/deleted.ts</td><td class="removed">removed</td>');
+    expect(html.match(/data-sort="number"/g)).toHaveLength(12);
+  });
+
+  it('shows current coverage only without a baseline', () => {
+    const html = buildHtmlReport({ ...report, comparison: undefined, baselineCommitSha: '' });
+
+    expect(html).toContain('Baseline: not found');
+    expect(html).toContain('No baseline coverage to compare against yet');
+    expect(html).not.toContain('<h2>Changed files');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCoverage } from '../src/parsers';
+import { mergeCoverage } from '../src/merge';
+import { parseLocalBaseline, resolveCoverageFiles } from '../src/parse';
+import { getGlobBase } from '../src/files';
+import { calculateMetric, summarizeFiles } from '../src/metrics';
+import { ActionInputs, FileCoverage, NormalizedCoverage } from '../src/types';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+const shard = `TN:
+SF:src/utils.ts
+FNF:2
+FNH:2
+DA:1,1
+DA:2,1
+DA:5,4
+DA:6,4
+DA:7,4
+LF:5
+LH:5
+end_of_record
+SF:src/extra.ts
+DA:1,1
+DA:2,0
+LF:2
+LH:1
+end_of_record
+`;
+
+describe('Coverage Merging', () => {
+  it('combines files present in several reports without double-counting', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+    const first = await parseCoverage(content, 'lcov.info', 'lcov');
+    const second = await parseCoverage(shard, 'lcov.info', 'lcov');
+
+    const merged = mergeCoverage([first, second]);
+
+    expect(merged.files.map((f) => f.path)).toEqual([
+      'src/index.ts',
+      'src/utils.ts',
+      'src/extra.ts',
+    ]);
+
+    // utils.ts: 7 lines in both reports, the shard covers the 3 lines the first run missed
+    const utils = merged.files[1];
+    expect(utils.lines.total).toBe(7);
+    expect(utils.lines.covered).toBe(7);
+    expect(utils.statements).toEqual(utils.lines);
+    expect(utils.lineDetails![1].hits).toBe(11);
+    expect(utils.functions.covered).toBe(2);
+
+    expect(merged.summary.lines.total).toBe(10 + 7 + 2);
+    expect(merged.summary.lines.covered).toBe(8 + 7 + 1);
+  });
+
+  it('combines files whose paths differ only in case with ignoreCase', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+    const first = await parseCoverage(content, 'lcov.info', 'lcov');
+    const second = await parseCoverage(
+      shard.replace('src/utils.ts', 'src/Utils.ts'),
+      'lcov.info',
+      'lcov',
+    );
+
+    expect(mergeCoverage([first, second]).files).toHaveLength(4);
+
+    const merged = mergeCoverage([first, second], true);
+    expect(merged.files.map((f) => f.path)).toEqual([
+      'src/index.ts',
+      'src/utils.ts',
+      'src/extra.ts',
+    ]);
+    expect(merged.files[1].lines.covered).toBe(7);
+  });
+
+  it('keeps the module and class breakdown of merged files', async () => {
+    const metric = (covered: number) => calculateMetric(covered, 4);
+    const entry = (covered: number, classes: string[]): FileCoverage => ({
+      path: 'app/models.kt',
+      module: 'core',
+      statements: metric(covered),
+      branches: metric(0),
+      functions: metric(covered),
+      lines: metric(covered),
+      classes: classes.map((name) => ({
+        name,
+        statements: metric(covered),
+        branches: metric(0),
+        functions: metric(covered),
+        lines: metric(covered),
+      })),
+    });
+    const report = (file: FileCoverage): NormalizedCoverage => ({
+      format: 'cobertura',
+      summary: summarizeFiles([file]),
+      files: [file],
+    });
+
+    const merged = mergeCoverage([
+      report(entry(1, ['Outer', 'Outer$Inner'])),
+      report(entry(3, ['Outer'])),
+    ]);
+
+    const [file] = merged.files;
+    expect(file.module).toBe('core');
+    expect(file.classes!.map((c) => [c.name, c.lines.covered])).toEqual([
+      ['Outer', 3],
+      ['Outer$Inner', 1],
+    ]);
+  });
+
+  it('returns a single report unchanged', async () => {
+    const content = fs.readFileSync(path.join(fixturesDir, 'cobertura.xml'), 'utf-8');
+    const coverage = await parseCoverage(content, 'cobertura.xml', 'cobertura');
+
+    expect(mergeCoverage([coverage])).toBe(coverage);
+  });
+
+  it('resolves globs and directories to coverage files', () => {
+    const files = resolveCoverageFiles(['*.xml', '.'], fixturesDir);
+
+    expect(files.map((f) => path.basename(f))).toEqual([
+      'clover.xml',
+      'cobertura.xml',
+      'coverage.opencover.xml',
+      'jacoco-aggregate.xml',
+      'jacoco.xml',
+      'lcov.info',
+    ]);
+  });
+
+  it('loads a local baseline without downloading', async () => {
+    const inputs = { format: 'auto' } as ActionInputs;
+    const baseline = await parseLocalBaseline(
+      `${path.join(fixturesDir, 'lcov.info')}\n${path.join(fixturesDir, 'cobertura.xml')}`,
+      inputs,
+    );
+
+    expect(baseline.outputDir).toBeUndefined();
+    expect(baseline.fileCount).toBe(2);
+    expect(baseline.coverage!.files.map((f) => f.path)).toEqual(['src/index.ts', 'src/utils.ts']);
+  });
+
+  it('finds the static base of a glob', () => {
+    expect(getGlobBase('coverage/**/lcov.info')).toBe('coverage');
+    expect(getGlobBase('packages/*/coverage/lcov.info')).toBe('packages');
+    expect(getGlobBase('**/lcov.info')).toBe('.');
+  });
+});
@@ -36,6 +36,33 @@ describe('Coverage Parsers', () => {
       const content = fs.readFileSync(path.join(fixturesDir, 'jacoco.xml'), 'utf-8');
       expect(detectFormat(content, 'jacoco.xml')).toBe('jacoco');
     });
+
+    it('detects Go coverprofile format', () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverage.out'), 'utf-8');
+      expect(detectFormat(content, 'coverage.out')).toBe('gocover');
+    });
+
+    it('tells coverage.py JSON from Istanbul by structure', () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverage.json'), 'utf-8');
+      expect(detectFormat(content, 'coverage.json')).toBe('coveragepy');
+      expect(detectFormat(content, 'python-report.txt')).toBe('coveragepy');
+
+      const istanbul = fs.readFileSync(path.join(fixturesDir, 'coverage-final.json'), 'utf-8');
+      expect(detectFormat(istanbul, 'coverage.json')).toBe('istanbul');
+    });
+
+    it('detects llvm-cov export by its type', () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'llvm-cov.json'), 'utf-8');
+      expect(detectFormat(content, 'coverage.json')).toBe('llvmcov');
+    });
+
+    it('detects OpenCover and Coverlet formats', () => {
+      const opencover = fs.readFileSync(path.join(fixturesDir, 'coverage.opencover.xml'), 'utf-8');
+      expect(detectFormat(opencover, 'coverage.opencover.xml')).toBe('opencover');
+
+      const coverlet = fs.readFileSync(path.join(fixturesDir, 'coverlet.json'), 'utf-8');
+      expect(detectFormat(coverlet, 'coverage.json')).toBe('coverlet');
+    });
   });
 
   describe('LCOV Parser', () => {
@@ -80,6 +107,58 @@ describe('Coverage Parsers', () => {
       expect(coverage.summary.lines.percentage).toBeCloseTo(75, 0);
       expect(coverage.summary.branches.percentage).toBeCloseTo(75, 0);
     });
+
+    it('merges classes that share a source file', async () => {
+      const content = `<?xml version="1.0" ?>
+<coverage line-rate="0.6" branch-rate="0.5">
+  <packages>
+    <package name="app" line-rate="0.6" branch-rate="0.5">
+      <classes>
+        <class name="Outer" filename="app/models.kt" line-rate="0.75" branch-rate="0.5">
+          <methods>
+            <method name="save" signature="()V" line-rate="1.0" branch-rate="1.0"/>
+          </methods>
+          <lines>
+            <line number="1" hits="2"/>
+            <line number="2" hits="2" branch="true" condition-coverage="50% (1/2)"/>
+            <line number="3" hits="0"/>
+            <line number="10" hits="1" branch="true" condition-coverage="50% (1/2)"/>
+          </lines>
+        </class>
+        <class name="Outer$Inner" filename="app/models.kt" line-rate="0.5" branch-rate="1.0">
+          <methods>
+            <method name="load" signature="()V" line-rate="0.0" branch-rate="0.0"/>
+          </methods>
+          <lines>
+            <line number="10" hits="1" branch="true" condition-coverage="100% (2/2)"/>
+            <line number="11" hits="0"/>
+          </lines>
+        </class>
+        <class name="Other" filename="app/other.kt" line-rate="1.0" branch-rate="1.0">
+          <lines>
+            <line number="1" hits="1"/>
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+      const coverage = await parseCoverage(content, 'cobertura.xml', 'cobertura');
+
+      expect(coverage.files.map((f) => f.path)).toEqual(['app/models.kt', 'app/other.kt']);
+
+      // Line 10 and its branches are reported by both classes but count once
+      const [models, other] = coverage.files;
+      expect(models.lines).toMatchObject({ total: 5, covered: 3 });
+      expect(models.lineDetails![10]).toEqual({ hits: 1, branches: { taken: 2, total: 2 } });
+      expect(models.branches).toMatchObject({ total: 4, covered: 3 });
+      expect(models.functions).toMatchObject({ total: 2, covered: 1 });
+      expect(models.classes!.map((c) => [c.name, c.lines.total])).toEqual([
+        ['Outer', 4],
+        ['Outer$Inner', 2],
+      ]);
+      expect(other.classes).toBeUndefined();
+    });
   });
 
   describe('Clover Parser', () => {
@@ -111,6 +190,294 @@ describe('Coverage Parsers', () => {
       expect(coverage.summary.statements.covered).toBe(20);
       expect(coverage.summary.lines.total).toBe(10); // LINE: missed 3 + covered 7
       expect(coverage.summary.lines.covered).toBe(7);
+      expect(coverage.files[0].functions).toMatchObject({ total: 2, covered: 2 });
+    });
+
+    it('parses nested groups of aggregate reports with per-file method counts', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'jacoco-aggregate.xml'), 'utf-8');
+      const coverage = await parseCoverage(content, 'jacoco.xml', 'jacoco');
+
+      expect(coverage.files.map((f) => [f.module, f.path])).toEqual([
+        ['services/api', 'services/api/com/example/api/Handler.java'],
+        ['core', 'core/com/example/core/Util.java'],
+      ]);
+
+      // Lines-only source file: methods come from both classes in Handler.java
+      expect(coverage.files[0].functions).toMatchObject({ total: 3, covered: 2 });
+      expect(coverage.files[0].lines).toMatchObject({ total: 3, covered: 2 });
+      expect(coverage.files[1].functions).toMatchObject({ total: 1, covered: 1 });
+    });
+
+    it('keeps files of modules sharing a package apart', async () => {
+      const module = (name: string) => `<group name="${name}">
+    <package name="com/example">
+      <sourcefile name="App.java"><line nr="1" mi="0" ci="1" mb="0" cb="0"/></sourcefile>
+    </package>
+  </group>`;
+      const content = `<report name="aggregate">${module('a')}${module('b')}</report>`;
+      const coverage = await parseCoverage(content, 'jacoco.xml', 'jacoco');
+
+      expect(coverage.files.map((f) => f.path)).toEqual([
+        'a/com/example/App.java',
+        'b/com/example/App.java',
+      ]);
+    });
+  });
+
+  describe('coverage.py JSON Parser', () => {
+    it('parses coverage.py JSON correctly', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverage.json'), 'utf-8');
+      const coverage = await parseCoverage(content, 'coverage.json', 'coveragepy');
+
+      expect(coverage.format).toBe('coveragepy');
+      expect(coverage.files.map((f) => f.path)).toEqual(['app/main.py', 'app/util.py']);
+
+      // Summary from totals, excluded lines are not counted
+      expect(coverage.summary.lines).toMatchObject({ total: 10, covered: 8 });
+      expect(coverage.summary.statements).toEqual(coverage.summary.lines);
+      expect(coverage.summary.branches).toMatchObject({ total: 4, covered: 2 });
+
+      // Module-level code is not a function
+      const main = coverage.files[0];
+      expect(main.functions).toMatchObject({ total: 2, covered: 1 });
+      expect(main.lineDetails![4]).toEqual({ hits: 1, branches: { taken: 1, total: 2 } });
+      expect(main.lineDetails![6]).toEqual({ hits: 0 });
+      expect(main.lineDetails![11]).toBeUndefined();
+    });
+
+    it('leaves excluded lines out of line details when other lists mention them', async () => {
+      const summary = { covered_lines: 1, num_statements: 2, missing_lines: 1 };
+      const content = JSON.stringify({
+        meta: { format: 3, branch_coverage: true },
+        files: {
+          'app/a.py': {
+            executed_lines: [1],
+            missing_lines: [2, 3],
+            excluded_lines: [3],
+            executed_branches: [[3, 4]],
+            missing_branches: [],
+            summary,
+          },
+        },
+        totals: summary,
+      });
+      const coverage = await parseCoverage(content, 'coverage.json', 'coveragepy');
+
+      expect(coverage.files[0].lineDetails).toEqual({ 1: { hits: 1 }, 2: { hits: 0 } });
+    });
+  });
+
+  describe('llvm-cov Parser', () => {
+    it('parses llvm-cov export JSON correctly', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'llvm-cov.json'), 'utf-8');
+      const coverage = await parseCoverage(content, 'llvm-cov.json', 'llvmcov');
+
+      expect(coverage.format).toBe('llvmcov');
+      expect(coverage.files.map((f) => f.path)).toEqual(['src/lib.rs', 'src/main.rs']);
+
+      // Regions map to statements
+      expect(coverage.summary.statements).toMatchObject({ total: 4, covered: 3 });
+      expect(coverage.summary.lines).toMatchObject({ total: 9, covered: 6 });
+      expect(coverage.summary.functions).toMatchObject({ total: 3, covered: 2 });
+      expect(coverage.summary.branches).toMatchObject({ total: 2, covered: 2 });
+    });
+
+    it('derives per-line hits from region segments', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'llvm-cov.json'), 'utf-8');
+      const coverage = await parseCoverage(content, 'llvm-cov.json', 'llvmcov');
+      const details = coverage.files[0].lineDetails!;
+
+      // Line 4 lies between functions and is not mapped
+      expect(Object.keys(details).map(Number)).toEqual([1, 2, 3, 5, 6, 7]);
+      expect(details[2]).toEqual({ hits: 5, branches: { taken: 2, total: 2 } });
+      expect(details[6]).toEqual({ hits: 0 });
+    });
+  });
+
+  describe('OpenCover Parser', () => {
+    it('parses OpenCover XML correctly', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverage.opencover.xml'), 'utf-8');
+      const coverage = await parseCoverage(content, 'coverage.opencover.xml', 'opencover');
+
+      expect(coverage.format).toBe('opencover');
+
+      // File uids resolve to paths, skipped modules and methods without source are left out
+      expect(coverage.files.map((f) => f.path)).toEqual([
+        'src/Calculator/Calc.cs',
+        'src/Calculator/Format.cs',
+      ]);
+      expect(coverage.summary.statements).toMatchObject({ total: 6, covered: 4 });
+      expect(coverage.summary.branches).toMatchObject({ total: 2, covered: 1 });
+      expect(coverage.summary.functions).toMatchObject({ total: 3, covered: 2 });
+
+      const calc = coverage.files[0];
+      expect(calc.lines).toMatchObject({ total: 4, covered: 3 });
+      expect(calc.lineDetails![6]).toEqual({ hits: 3, branches: { taken: 1, total: 2 } });
+      expect(calc.lineDetails![7]).toEqual({ hits: 0 });
+    });
+
+    it('merges a file compiled into several modules', async () => {
+      const module = (vc: number) => `<Module>
+      <Files><File uid="1" fullPath="src/Shared.cs" /></Files>
+      <Classes><Class><Methods><Method>
+        <Name>System.Void Shared::Run()</Name>
+        <FileRef uid="1" />
+        <SequencePoints>
+          <SequencePoint vc="1" sl="3" sc="9" />
+          <SequencePoint vc="${vc}" sl="4" sc="9" />
+        </SequencePoints>
+        <BranchPoints>
+          <BranchPoint vc="1" sl="4" offset="2" path="0" />
+          <BranchPoint vc="${vc}" sl="4" offset="2" path="1" />
+        </BranchPoints>
+      </Method></Methods></Class></Classes>
+    </Module>`;
+      const content = `<CoverageSession><Modules>${module(0)}${module(2)}</Modules></CoverageSession>`;
+      const coverage = await parseCoverage(content, 'coverage.opencover.xml', 'opencover');
+
+      expect(coverage.files).toHaveLength(1);
+      expect(coverage.summary.statements).toMatchObject({ total: 2, covered: 2 });
+      expect(coverage.summary.branches).toMatchObject({ total: 2, covered: 2 });
+      expect(coverage.summary.functions).toMatchObject({ total: 1, covered: 1 });
+      expect(coverage.files[0].lineDetails![4]).toEqual({
+        hits: 2,
+        branches: { taken: 2, total: 2 },
+      });
+    });
+
+    it('rejects a session without modules', async () => {
+      await expect(
+        parseCoverage('<CoverageSession><Modules /></CoverageSession>', 'a.xml', 'opencover'),
+      ).rejects.toThrow('no Module elements found');
+    });
+  });
+
+  describe('Coverlet Parser', () => {
+    it('parses Coverlet JSON correctly', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverlet.json'), 'utf-8');
+      const coverage = await parseCoverage(content, 'coverage.json', 'coverlet');
+
+      expect(coverage.format).toBe('coverlet');
+      expect(coverage.files.map((f) => f.path)).toEqual([
+        'src/Calculator/Calc.cs',
+        'src/Calculator/Format.cs',
+      ]);
+      expect(coverage.summary.statements).toMatchObject({ total: 6, covered: 4 });
+      expect(coverage.summary.branches).toMatchObject({ total: 2, covered: 1 });
+      expect(coverage.summary.functions).toMatchObject({ total: 3, covered: 2 });
+      expect(coverage.files[0].lineDetails![6]).toEqual({
+        hits: 3,
+        branches: { taken: 1, total: 2 },
+      });
+    });
+
+    it('merges a file compiled into several modules', async () => {
+      const method = (hits: number) => ({
+        'src/Shared.cs': {
+          Shared: {
+            'System.Void Shared::Run()': {
+              Lines: { '3': 1, '4': hits },
+              Branches: [
+                { Line: 4, Offset: 2, Path: 0, Hits: 1 },
+                { Line: 4, Offset: 2, Path: 1, Hits: hits },
+                { Line: 9, Offset: 8, Path: 0, Hits: 0 },
+              ],
+            },
+          },
+        },
+      });
+      const content = JSON.stringify({ 'A.dll': method(0), 'B.dll': method(2) });
+      const coverage = await parseCoverage(content, 'coverage.json', 'coverlet');
+
+      expect(coverage.summary.lines).toMatchObject({ total: 2, covered: 2 });
+      expect(coverage.summary.branches).toMatchObject({ total: 3, covered: 2 });
+      expect(coverage.summary.functions).toMatchObject({ total: 1, covered: 1 });
+      expect(coverage.files[0].lineDetails![4]).toEqual({
+        hits: 2,
+        branches: { taken: 2, total: 2 },
+      });
+      // Branch data alone doesn't make a line executable
+      expect(coverage.files[0].lineDetails![9]).toBeUndefined();
+    });
+  });
+
+  describe('Go Coverprofile Parser', () => {
+    it('parses Go coverprofile correctly', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverage.out'), 'utf-8');
+      const coverage = await parseCoverage(content, 'coverage.out', 'gocover');
+
+      expect(coverage.format).toBe('gocover');
+      expect(coverage.files.length).toBe(2);
+
+      // Blocks map to statements; repeated blocks are merged rather than double-counted
+      expect(coverage.summary.statements.total).toBe(6);
+      expect(coverage.summary.statements.covered).toBe(5);
+      expect(coverage.summary.branches.total).toBe(0);
+
+      const math = coverage.files[0];
+      expect(math.path).toBe('github.com/example/app/pkg/math/math.go');
+      expect(math.lines.total).toBe(8);
+      expect(math.lines.covered).toBe(6);
+      expect(math.lineDetails![10]).toEqual({ hits: 2 });
+      expect(math.lineDetails![11]).toEqual({ hits: 0 });
+    });
+
+    it('rejects content without a mode header', async () => {
+      await expect(parseCoverage('foo.go:1.1,2.2 1 1', 'coverage.out', 'gocover')).rejects.toThrow(
+        'missing "mode:" header',
+      );
+    });
+  });
+
+  describe('Line Details', () => {
+    it('reads per-line hits and branches from LCOV', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      const details = coverage.files[0].lineDetails!;
+
+      expect(Object.keys(details).length).toBe(10);
+      expect(details[1]).toEqual({ hits: 5 });
+      expect(details[8]).toEqual({ hits: 0 });
+      expect(details[7]).toEqual({ hits: 3, branches: { taken: 1, total: 2 } });
+    });
+
+    it('reads per-line hits and branches from Istanbul', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'coverage-final.json'), 'utf-8');
+      const coverage = await parseCoverage(content, 'coverage-final.json', 'istanbul');
+      const details = coverage.files[0].lineDetails!;
+
+      expect(details[2]).toEqual({ hits: 5, branches: { taken: 2, total: 2 } });
+      expect(details[5]).toEqual({ hits: 0 });
+    });
+
+    it('reads per-line hits and branches from Cobertura', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'cobertura.xml'), 'utf-8');
+      const coverage = await parseCoverage(content, 'cobertura.xml', 'cobertura');
+      const details = coverage.files[0].lineDetails!;
+
+      expect(Object.keys(details).length).toBe(5);
+      expect(details[2]).toEqual({ hits: 5, branches: { taken: 3, total: 4 } });
+      expect(details[5]).toEqual({ hits: 0 });
+    });
+
+    it('reads per-line hits and branches from Clover', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'clover.xml'), 'utf-8');
+      const coverage = await parseCoverage(content, 'clover.xml', 'clover');
+      const details = coverage.files[0].lineDetails!;
+
+      // Method declaration lines are not included
+      expect(Object.keys(details).map(Number)).toEqual([1, 2, 3, 4, 5]);
+      expect(details[3]).toEqual({ hits: 5, branches: { taken: 2, total: 2 } });
+    });
+
+    it('reads per-line hits and branches from JaCoCo', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'jacoco.xml'), 'utf-8');
+      const coverage = await parseCoverage(content, 'jacoco.xml', 'jacoco');
+      const details = coverage.files[0].lineDetails!;
+
+      expect(Object.keys(details).length).toBe(7);
+      expect(details[12]).toEqual({ hits: 1, branches: { taken: 1, total: 2 } });
+      expect(details[13]).toEqual({ hits: 0 });
     });
   });
 
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCoverage } from '../src/parsers';
+import { ChangedLines, parseDiff, toBaseLine } from '../src/diff';
+import { computePatchCoverage, findUncoveredChanges, formatLineRanges } from '../src/patch';
+import { FileCoverage } from '../src/types';
+import { coverage, file } from './helpers';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+function changedFile(filePath: string, lines: number[]): ChangedLines {
+  return new Map([[filePath, { lines: new Set(lines), hunks: [] }]]);
+}
+
+const diff = `diff --git a/src/index.ts b/src/index.ts
+index 1111111..2222222 100644
+--- a/src/index.ts
++++ b/src/index.ts
+@@ -3,0 +4,3 @@ export function run() {
++  added();
++  added();
++  added();
+@@ -8 +10,2 @@ export function run() {
+-  old();
++  replaced();
++  replaced();
+diff --git a/src/removed.ts b/src/removed.ts
+deleted file mode 100644
+--- a/src/removed.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-gone();
+-gone();
+diff --git a/README.md b/README.md
+--- a/README.md
++++ b/README.md
+@@ -1 +1 @@
+-old
++new
+`;
+
+describe('Patch Coverage', () => {
+  describe('parseDiff', () => {
+    it('collects added and modified lines per file', () => {
+      const changed = parseDiff(diff);
+
+      expect([...changed.keys()]).toEqual(['src/index.ts', 'README.md']);
+      expect([...changed.get('src/index.ts')!.lines]).toEqual([4, 5, 6, 10, 11]);
+      expect([...changed.get('README.md')!.lines]).toEqual([1]);
+    });
+
+    it('ignores pure deletions', () => {
+      const changed = parseDiff(`--- a/src/a.ts
++++ b/src/a.ts
+@@ -5,2 +4,0 @@
+-one();
+-two();
+`);
+
+      expect(changed.get('src/a.ts')!.lines.size).toBe(0);
+    });
+
+    it('does not mistake added lines starting with "++ " for file headers', () => {
+      const changed = parseDiff(`--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,3 @@
+ keep();
+-// old
++++ counter;
++-- counter;
+\\ No newline at end of file
+--- a/src/b.ts
++++ b/src/b.ts
+@@ -0,0 +1 @@
++added();
+`);
+
+      expect([...changed.keys()]).toEqual(['src/a.ts', 'src/b.ts']);
+      expect([...changed.get('src/a.ts')!.lines]).toEqual([1, 2, 3]);
+      expect([...changed.get('src/b.ts')!.lines]).toEqual([1]);
+    });
+
+    it('maps unchanged lines back to the base side', () => {
+      const { hunks } = parseDiff(diff).get('src/index.ts')!;
+
+      expect(toBaseLine(hunks, 3)).toBe(3);
+      expect(toBaseLine(hunks, 5)).toBeUndefined();
+      expect(toBaseLine(hunks, 7)).toBe(4);
+      expect(toBaseLine(hunks, 10)).toBeUndefined();
+      expect(toBaseLine(hunks, 12)).toBe(8);
+      expect(toBaseLine(parseDiff('+++ b/a\n@@ -5,2 +4,0 @@\n-x\n-y\n').get('a')!.hunks, 5)).toBe(
+        7,
+      );
+    });
+  });
+
+  describe('computePatchCoverage', () => {
+    it('measures only changed executable lines', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      const changed = parseDiff(diff);
+
+      const patch = computePatchCoverage(coverage, changed, 'abc1234', 80);
+
+      // Lines 4, 5, 6 and 10 are executable; 8/9 are uncovered but unchanged; 11 has no data
+      expect(patch.lines.total).toBe(4);
+      expect(patch.lines.covered).toBe(4);
+      expect(patch.status).toBe('pass');
+      expect(patch.files.map((f) => f.path)).toEqual(['src/index.ts']);
+    });
+
+    it('fails when patch coverage is below threshold', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      const changed = changedFile('src/utils.ts', [3, 4, 5, 6, 7]);
+
+      const patch = computePatchCoverage(coverage, changed, 'abc1234', 50);
+
+      expect(patch.lines.covered).toBe(2);
+      expect(patch.lines.total).toBe(5);
+      expect(patch.status).toBe('fail');
+      expect(patch.files[0].uncoveredLines).toEqual([5, 6, 7]);
+    });
+
+    it('matches absolute coverage paths by suffix', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      coverage.files = coverage.files.map((f) => ({
+        ...f,
+        path: `/home/runner/work/app/${f.path}`,
+      }));
+
+      const patch = computePatchCoverage(coverage, parseDiff(diff), 'abc1234', 0);
+
+      expect(patch.lines.total).toBe(4);
+    });
+
+    it('matches coverage paths case-insensitively with ignoreCase', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      const changed = changedFile('src/Utils.ts', [3, 4, 5, 6, 7]);
+
+      expect(computePatchCoverage(coverage, changed, 'abc1234', 0).files).toEqual([]);
+
+      const patch = computePatchCoverage(coverage, changed, 'abc1234', 0, true);
+
+      expect(patch.files.map((f) => f.path)).toEqual(['src/Utils.ts']);
+    });
+
+    it('matches package-relative coverage paths by the end of the diff path', () => {
+      const javaFile = (filePath: string, module?: string): FileCoverage => ({
+        ...file(filePath, 1, 2),
+        ...(module && { module }),
+        lineDetails: { 3: { hits: 1 }, 4: { hits: 0 } },
+      });
+      const changed = changedFile('app/src/main/java/com/x/Foo.java', [3, 4]);
+
+      for (const coverageFile of [
+        javaFile('com/x/Foo.java'),
+        javaFile('app/com/x/Foo.java', 'app'),
+      ]) {
+        const patch = computePatchCoverage(coverage([coverageFile]), changed, 'abc1234', 0);
+        expect(patch.files.map((f) => f.path)).toEqual(['app/src/main/java/com/x/Foo.java']);
+        expect(patch.lines.total).toBe(2);
+      }
+
+      const otherModule = coverage([javaFile('lib/com/x/Foo.java', 'lib')]);
+      expect(computePatchCoverage(otherModule, changed, 'abc1234', 0).files).toEqual([]);
+    });
+
+    it('warns about changed source files without a coverage entry', async () => {
+      const warning = vi.spyOn(core, 'warning').mockImplementation(() => {});
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      const changed = parseDiff(diff.replace(/src\/index\.ts/g, 'packages/app/index.ts'));
+
+      try {
+        const patch = computePatchCoverage(coverage, changed, 'abc1234', 80);
+
+        expect(patch.lines.total).toBe(0);
+        expect(warning).toHaveBeenCalledOnce();
+        expect(warning.mock.calls[0][0]).toMatch(
+          /^No changed lines were measured\. 1 changed source files .*\n {2}- packages\/app\/index\.ts$/,
+        );
+      } finally {
+        warning.mockRestore();
+      }
+    });
+
+    it('is unavailable when the format has no per-line data', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      coverage.files = coverage.files.map(({ lineDetails, ...f }) => f);
+
+      const patch = computePatchCoverage(coverage, parseDiff(diff), 'abc1234', 80);
+
+      expect(patch.status).toBe('unavailable');
+      expect(patch.files).toEqual([]);
+    });
+  });
+
+  describe('findUncoveredChanges', () => {
+    it('reports uncovered changed lines and coverage lost in changed files', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      // Every line but the last of src/index.ts was covered in the baseline
+      const baseline = {
+        ...coverage,
+        files: coverage.files.map((f) => ({
+          ...f,
+          lineDetails: Object.fromEntries(
+            Object.keys(f.lineDetails!).map((line) => [line, { hits: line === '9' ? 0 : 1 }]),
+          ),
+        })),
+      };
+      // Line 3 of src/index.ts is new, so its lines 8 and 9 were lines 7 and 8 in the baseline
+      const changed = parseDiff(`--- a/src/utils.ts
++++ b/src/utils.ts
+@@ -3,5 +3,5 @@
+-old();
+-old();
+-old();
+-old();
+-old();
++new();
++new();
++new();
++new();
++new();
+--- a/src/index.ts
++++ b/src/index.ts
+@@ -2,0 +3 @@
++added();
+`);
+
+      expect(findUncoveredChanges(coverage, baseline, changed)).toEqual([
+        { path: 'src/utils.ts', startLine: 5, endLine: 7, kind: 'added' },
+        { path: 'src/index.ts', startLine: 8, endLine: 9, kind: 'uncovered' },
+      ]);
+      expect(findUncoveredChanges(coverage, undefined, changed)).toHaveLength(1);
+
+      // With ignoreCase the baseline is found whatever the case of its paths
+      const renamed = {
+        ...baseline,
+        files: baseline.files.map((f) => ({ ...f, path: f.path.replace('src/', 'SRC/') })),
+      };
+      expect(findUncoveredChanges(coverage, renamed, changed)).toHaveLength(1);
+      expect(findUncoveredChanges(coverage, renamed, changed, true)).toHaveLength(2);
+    });
+
+    it('skips files outside the diff', async () => {
+      const content = fs.readFileSync(path.join(fixturesDir, 'lcov.info'), 'utf-8');
+      const coverage = await parseCoverage(content, 'lcov.info', 'lcov');
+      const baseline = {
+        ...coverage,
+        files: coverage.files.map((f) => ({
+          ...f,
+          lineDetails: Object.fromEntries(
+            Object.keys(f.lineDetails!).map((line) => [line, { hits: 1 }]),
+          ),
+        })),
+      };
+
+      expect(findUncoveredChanges(coverage, baseline, changedFile('README.md', [1]))).toEqual([]);
+    });
+  });
+
+  describe('formatLineRanges', () => {
+    it('collapses consecutive lines', () => {
+      expect(formatLineRanges([1, 2, 3, 7, 9, 10])).toBe('1-3, 7, 9-10');
+      expect(formatLineRanges([])).toBe('');
+    });
+  });
+});
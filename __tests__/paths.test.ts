@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseCoverage } from '../src/parsers';
+import { normalizePath, parsePathReplacements, resolveSourceRoots, toPathKey } from '../src/paths';
+import { PathOptions } from '../src/types';
+
+const options: PathOptions = {
+  workspace: '/home/runner/work/app/app',
+  replacements: [],
+};
+
+describe('Path Normalization', () => {
+  it('strips the workspace root and other runner checkouts', () => {
+    expect(normalizePath('/home/runner/work/app/app/src/x.ts', options)).toBe('src/x.ts');
+    expect(normalizePath('/__w/app/app/src/x.ts', options)).toBe('src/x.ts');
+    expect(normalizePath('D:\\a\\app\\app\\src\\x.ts', options)).toBe('src/x.ts');
+    expect(normalizePath('/data/a/b/b/src/x.ts', options)).toBe('/data/a/b/b/src/x.ts');
+    expect(normalizePath('./src/x.ts', options)).toBe('src/x.ts');
+    expect(normalizePath('/opt/other/src/x.ts', options)).toBe('/opt/other/src/x.ts');
+  });
+
+  it('normalizes separators and keeps the original case', () => {
+    expect(normalizePath('src\\Utils\\X.ts', options)).toBe('src/Utils/X.ts');
+    expect(toPathKey('src/Utils/X.ts', false)).toBe('src/Utils/X.ts');
+    expect(toPathKey('src/Utils/X.ts', true)).toBe('src/utils/x.ts');
+  });
+
+  it('applies path-replace rules before making paths relative', () => {
+    const replacements = parsePathReplacements([
+      '/app/ =>',
+      'C:\\build\\ => /home/runner/work/app/app/',
+    ]);
+
+    expect(replacements[0]).toEqual({ from: '/app/', to: '' });
+    expect(normalizePath('/app/src/x.ts', { ...options, replacements })).toBe('src/x.ts');
+    expect(normalizePath('C:\\build\\src\\x.ts', { ...options, replacements })).toBe('src/x.ts');
+    expect(() => parsePathReplacements(['/app/'])).toThrow('Invalid path-replace rule');
+  });
+
+  it('resolves Cobertura filenames against <sources>', async () => {
+    const content = `<?xml version="1.0" ?>
+<coverage line-rate="1" branch-rate="1">
+  <sources>
+    <source>/home/runner/work/app/app/src</source>
+  </sources>
+  <packages>
+    <package name="." line-rate="1" branch-rate="1">
+      <classes>
+        <class name="x.py" filename="x.py" line-rate="1" branch-rate="1">
+          <lines><line number="1" hits="1"/></lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+    const coverage = await parseCoverage(content, 'coverage.xml', 'cobertura');
+    expect(coverage.sourceRoots).toEqual(['/home/runner/work/app/app/src']);
+
+    const resolved = resolveSourceRoots(coverage);
+
+    expect(resolved.sourceRoots).toBeUndefined();
+    expect(normalizePath(resolved.files[0].path, options)).toBe('src/x.py');
+  });
+});
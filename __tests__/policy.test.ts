@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { evaluatePolicy, formatPolicyViolation } from '../src/compare';
+import { applyPolicyIgnores, loadPolicy } from '../src/policy';
+import { coverage, file } from './helpers';
+
+const policyPath = path.join(__dirname, 'fixtures', 'coverage-policy.yml');
+
+describe('Coverage Policy', () => {
+  it('loads rules from a policy file', () => {
+    const policy = loadPolicy(policyPath)!;
+
+    expect(policy.rules).toHaveLength(3);
+    expect(policy.rules[0].thresholds).toEqual({
+      statements: 0,
+      branches: 0,
+      functions: 0,
+      lines: 0,
+    });
+    expect(policy.rules[1].minimums).toEqual({ lines: 40 });
+    expect(policy.rules[2].ignore).toBe(true);
+  });
+
+  it('requires an explicitly configured policy file to exist', () => {
+    expect(() => loadPolicy('missing-policy.yml')).toThrow('Coverage policy file not found');
+  });
+
+  it('drops ignored files and recomputes the summary', () => {
+    const policy = loadPolicy(policyPath)!;
+    const filtered = applyPolicyIgnores(
+      coverage([file('src/core/a.ts', 9, 10), file('src/api/client.generated.ts', 0, 90)]),
+      policy,
+    );
+
+    expect(filtered.files.map((f) => f.path)).toEqual(['src/core/a.ts']);
+    expect(filtered.summary.lines.percentage).toBe(90);
+  });
+
+  it('matches rule globs case-insensitively with ignoreCase', () => {
+    const policy = loadPolicy(policyPath)!;
+    const files = coverage([
+      file('src/Core/a.ts', 9, 10),
+      file('src/Api/Client.Generated.ts', 0, 9),
+    ]);
+
+    expect(applyPolicyIgnores(files, policy).files).toHaveLength(2);
+    expect(applyPolicyIgnores(files, policy, true).files.map((f) => f.path)).toEqual([
+      'src/Core/a.ts',
+    ]);
+    expect(evaluatePolicy(files, undefined, policy, true).rules[0].files).toBe(1);
+  });
+
+  it('evaluates each rule against a rollup of its files', () => {
+    const policy = loadPolicy(policyPath)!;
+    const baseline = coverage([
+      file('src/core/a.ts', 9, 10),
+      file('src/core/b.ts', 10, 10),
+      file('src/legacy/old.ts', 50, 100),
+    ]);
+    const current = coverage([
+      file('src/core/a.ts', 10, 10),
+      file('src/core/b.ts', 8, 10),
+      file('src/legacy/old.ts', 39, 100),
+    ]);
+
+    const result = evaluatePolicy(current, baseline, policy);
+
+    expect(result.passed).toBe(false);
+    expect(result.rules.map((r) => [r.rule, r.files, r.violations.length])).toEqual([
+      ['src/core/**', 2, 4],
+      ['src/legacy/**', 1, 5],
+    ]);
+
+    const legacy = result.rules[1];
+    expect(formatPolicyViolation(legacy.rule, legacy.violations[3])).toBe(
+      'src/legacy/**: lines -11.0% (threshold: 2%)',
+    );
+    expect(formatPolicyViolation(legacy.rule, legacy.violations[4])).toBe(
+      'src/legacy/**: lines 39.0% < 40% minimum',
+    );
+  });
+});
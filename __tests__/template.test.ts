@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildTemplateData,
+  loadTemplate,
+  renderTemplate,
+  renderWithinLimit,
+} from '../src/template';
+import { compareCoverage } from '../src/compare';
+import { ActionInputs, CoverageReport, GitContext } from '../src/types';
+import { coverage, file } from './helpers';
+
+describe('Templates', () => {
+  const thresholds = { statements: 0, branches: 0, functions: 0, lines: 0 };
+  const baseline = coverage([
+    file('src/a.ts', 8, 10),
+    file('src/b.ts', 5, 10),
+    file('src/c.ts', 1, 4),
+  ]);
+  const current = coverage([
+    file('src/a.ts', 6, 10),
+    file('src/b.ts', 4, 10),
+    file('src/c.ts', 3, 4),
+  ]);
+
+  const report = {
+    timestamp: '2024-01-01T00:00:00.000Z',
+    format: 'lcov',
+    baselineAlias: 'coverage-production',
+    baselineCommitSha: 'abc1234def',
+    currentCommitSha: 'def5678abc',
+    baseline: baseline.summary,
+    current: current.summary,
+    thresholds,
+    comparison: compareCoverage(current, baseline, { thresholds }),
+  } as CoverageReport;
+  const inputs = {
+    commentHeader: '## Coverage Report',
+    baselineAliases: ['coverage-production'],
+    failOnRegression: true,
+    missingBaseline: 'warn',
+  } as ActionInputs;
+  const context = { repository: 'owner/repo', commitSha: 'def5678abc' } as GitContext;
+
+  it('renders a custom template against the report data', () => {
+    const template =
+      '{{header}} {{#regressed}}down {{overallDelta}}{{/regressed}} from {{baselineLabel}}\n' +
+      '{{#files.regressed.items}}- {{path}} {{linesDelta}}\n{{/files.regressed.items}}' +
+      '{{#files.regressed.more}}+{{files.regressed.more}}{{/files.regressed.more}}';
+    const data = buildTemplateData(report, inputs, context, {}, 1);
+
+    expect(renderTemplate(template, data)).toBe(
+      '## Coverage Report down -4.2% from `coverage-production` @ `abc1234`\n- src/a.ts -20.0%\n+1',
+    );
+    expect(data.files.regressed.all).toHaveLength(2);
+    expect(data.passed).toBe(false);
+  });
+
+  it('loads the built-in templates, starting the comment with its header', () => {
+    const data = buildTemplateData(report, inputs, context, {}, 20);
+
+    expect(renderTemplate(loadTemplate(undefined, 'comment'), data)).toMatch(
+      /^## Coverage Report\n/,
+    );
+    expect(renderTemplate(loadTemplate(undefined, 'summary'), data)).toContain(
+      '| Lines | 58.3% | 54.2% | -4.2% | :arrow_down: regressed |',
+    );
+  });
+
+  it('reads user templates and reports missing ones', () => {
+    const templatePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-')), 'c.md');
+    fs.writeFileSync(templatePath, '{{currentCommit}}');
+
+    expect(loadTemplate(templatePath, 'comment')).toBe('{{currentCommit}}');
+    expect(() => loadTemplate(`${templatePath}.missing`, 'comment')).toThrow(
+      'Template file not found',
+    );
+  });
+
+  it('drops improved, then regressed files to fit the size limit', () => {
+    const template =
+      '{{#files.changed.items}}{{path}} {{/files.changed.items}}' +
+      '{{#truncated}}+{{files.changed.more}}{{/truncated}}';
+    const data = buildTemplateData(report, inputs, context, {}, 20);
+
+    expect(renderWithinLimit(template, data, 100)).toBe('src/a.ts src/b.ts src/c.ts ');
+    expect(renderWithinLimit(template, data, 20)).toBe('src/a.ts src/b.ts +1');
+    expect(renderWithinLimit(template, data, 10)).toBe('+3');
+  });
+
+  it('truncates output that is too long even without file tables', () => {
+    const output = renderWithinLimit(
+      'x'.repeat(100),
+      buildTemplateData(report, inputs, context, {}, 20),
+      50,
+    );
+
+    expect(output).toHaveLength(50);
+    expect(output).toMatch(/\*\.\.\.report truncated\*$/);
+  });
+});
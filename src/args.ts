@@ -0,0 +1,137 @@
+import { parseArgs } from 'util';
+import { GitContext } from './types';
+
+/**
+ * Action inputs accepted as flags, e.g. --baseline-path or --threshold-branches
+ * The PR comment and step summary inputs only apply inside GitHub Actions
+ */
+const INPUT_FLAGS = [
+  'path',
+  'baseline-alias',
+  'api-url',
+  'api-key',
+  'baseline-path',
+  'missing-baseline',
+  'baseline-strategy',
+  'format',
+  'include',
+  'exclude',
+  'path-replace',
+  'path-ignore-case',
+  'threshold',
+  'threshold-statements',
+  'threshold-branches',
+  'threshold-functions',
+  'threshold-lines',
+  'min-statements',
+  'min-branches',
+  'min-functions',
+  'min-lines',
+  'policy',
+  'new-file-min-coverage',
+  'patch-coverage',
+  'patch-threshold',
+  'patch-base',
+  'badge-path',
+  'badge-metric',
+  'badge-label',
+  'badge-colors',
+  'summary-template',
+  'upload-results',
+  'alias',
+  'repository',
+  'fail-on-regression',
+] as const;
+
+export const USAGE = `Usage: compare-coverage --path <coverage> (--baseline-path <coverage> | --baseline-alias <alias> --api-url <url> --api-key <key>) [options]
+
+Compare a coverage report against a baseline and exit non-zero when a coverage gate fails.
+
+Inputs (same as the GitHub Action, repeat a flag for multi-line inputs):
+  ${INPUT_FLAGS.map((flag) => `--${flag}`).join(', ')}
+
+Context (defaults to CI environment variables, then local git):
+  --commit-sha <sha>, --branch <name>, --pr-number <n>, --base-sha <sha>
+
+Output:
+  --output <markdown|json>   Report written to stdout (default: markdown)
+  --markdown-file <file>     Also write the Markdown report to a file
+  --json-file <file>         Also write the JSON report to a file
+  --html-file <file>         Also write the HTML report to a file, uploaded with the results
+  -h, --help                 Show this help
+
+Exit codes: 0 passed, 1 coverage gate failed, 2 error`;
+
+export interface CliOptions {
+  inputs: Record<string, string>; // Action input name -> value
+  context: Partial<GitContext>;
+  output: 'markdown' | 'json';
+  markdownFile?: string;
+  jsonFile?: string;
+  htmlFile?: string;
+  help: boolean;
+}
+
+/**
+ * Parse command line arguments into action inputs, context overrides and output options
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      ...Object.fromEntries(
+        INPUT_FLAGS.map((flag) => [flag, { type: 'string' as const, multiple: true as const }]),
+      ),
+      'commit-sha': { type: 'string' },
+      branch: { type: 'string' },
+      'pr-number': { type: 'string' },
+      'base-sha': { type: 'string' },
+      output: { type: 'string' },
+      'markdown-file': { type: 'string' },
+      'json-file': { type: 'string' },
+      'html-file': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const flags = values as Record<string, string | string[] | boolean | undefined>;
+
+  const inputs: Record<string, string> = {};
+  for (const flag of INPUT_FLAGS) {
+    const value = flags[flag];
+    if (Array.isArray(value)) {
+      inputs[flag] = value.join('\n');
+    }
+  }
+
+  // Uploading is opt-in when run by hand
+  inputs['upload-results'] ??= 'false';
+
+  const output = (flags.output as string | undefined) ?? 'markdown';
+  if (output !== 'markdown' && output !== 'json') {
+    throw new Error(`Invalid output: ${output}. Must be one of: markdown, json`);
+  }
+
+  const prNumberInput = flags['pr-number'] as string | undefined;
+  const prNumber = prNumberInput ? parseInt(prNumberInput, 10) : undefined;
+  if (prNumber !== undefined && isNaN(prNumber)) {
+    throw new Error(`Invalid pr-number: ${prNumberInput}`);
+  }
+
+  return {
+    inputs,
+    context: {
+      commitSha: flags['commit-sha'] as string | undefined,
+      branch: flags.branch as string | undefined,
+      prNumber,
+      baseSha: flags['base-sha'] as string | undefined,
+      repository: inputs.repository,
+    },
+    output,
+    markdownFile: flags['markdown-file'] as string | undefined,
+    jsonFile: flags['json-file'] as string | undefined,
+    htmlFile: flags['html-file'] as string | undefined,
+    help: flags.help === true,
+  };
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BadgeColorStop, BadgeOptions, CoverageSummary } from './types';
+
+/**
+ * Shields.io color names
+ */
+const NAMED_COLORS: Record<string, string> = {
+  brightgreen: '#4c1',
+  green: '#97ca00',
+  yellowgreen: '#a4a61d',
+  yellow: '#dfb317',
+  orange: '#fe7d37',
+  red: '#e05d44',
+  blue: '#007ec6',
+  lightgrey: '#9f9f9f',
+};
+
+export const DEFAULT_BADGE_COLORS: BadgeColorStop[] = [
+  { min: 0, color: 'red' },
+  { min: 50, color: 'orange' },
+  { min: 70, color: 'yellow' },
+  { min: 80, color: 'yellowgreen' },
+  { min: 90, color: 'brightgreen' },
+];
+
+/**
+ * Approximate Verdana 11px glyph widths, anything else counts as 7px
+ */
+const CHAR_WIDTHS: Array<[string, number]> = [
+  [' .,:;!|ijl', 3.5],
+  ['frt()-', 4.5],
+  ['%', 12],
+  ['mwMW', 10.5],
+];
+
+/**
+ * Parse badge color stops, one "percentage: color" per line
+ * Colors are shields.io names or hex codes, each stop applies from its percentage upwards
+ */
+export function parseBadgeColors(lines: string[]): BadgeColorStop[] {
+  if (lines.length === 0) {
+    return DEFAULT_BADGE_COLORS;
+  }
+
+  const stops = lines.map((line) => {
+    const match = line.match(/^\s*(\d+(?:\.\d+)?)\s*:\s*(#?[0-9a-z]+)\s*$/i);
+    const min = match ? parseFloat(match[1]) : NaN;
+    if (!match || min > 100 || !isColor(match[2])) {
+      throw new Error(
+        `Invalid badge-colors entry: ${line}. Expected "percentage: color", e.g. "80: green"`,
+      );
+    }
+    return { min, color: match[2] };
+  });
+
+  return stops.sort((a, b) => a.min - b.min);
+}
+
+/**
+ * Render a flat shields-style SVG badge for one coverage metric
+ */
+export function renderBadge(summary: CoverageSummary, options: BadgeOptions): string {
+  const percentage = summary[options.metric].percentage;
+  const label = escapeXml(options.label);
+  const value = `${percentage.toFixed(1)}%`;
+  const color = toHex(getBadgeColor(percentage, options.colors));
+
+  const labelWidth = Math.round(textWidth(options.label) + 10);
+  const valueWidth = Math.round(textWidth(value) + 10);
+  const width = labelWidth + valueWidth;
+  const labelX = labelWidth / 2;
+  const valueX = labelWidth + valueWidth / 2;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${label}: ${value}">`,
+    `<title>${label}: ${value}</title>`,
+    '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>',
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>`,
+    '<g clip-path="url(#r)">',
+    `<rect width="${labelWidth}" height="20" fill="#555"/>`,
+    `<rect x="${labelWidth}" width="${valueWidth}" height="20" fill="${color}"/>`,
+    `<rect width="${width}" height="20" fill="url(#s)"/>`,
+    '</g>',
+    '<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">',
+    `<text x="${labelX}" y="15" fill="#010101" fill-opacity=".3">${label}</text>`,
+    `<text x="${labelX}" y="14">${label}</text>`,
+    `<text x="${valueX}" y="15" fill="#010101" fill-opacity=".3">${value}</text>`,
+    `<text x="${valueX}" y="14">${value}</text>`,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Render the badge and write it to its configured path
+ */
+export function writeBadge(summary: CoverageSummary, options: BadgeOptions): void {
+  const resolvedPath = path.resolve(options.path);
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  fs.writeFileSync(resolvedPath, renderBadge(summary, options));
+}
+
+/**
+ * Pick the color of the highest stop the percentage reaches
+ */
+export function getBadgeColor(percentage: number, colors: BadgeColorStop[]): string {
+  let color = colors[0]?.color ?? 'lightgrey';
+  for (const stop of colors) {
+    if (percentage >= stop.min) {
+      color = stop.color;
+    }
+  }
+  return color;
+}
+
+function isColor(color: string): boolean {
+  return color.toLowerCase() in NAMED_COLORS || /^#?(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(color);
+}
+
+function toHex(color: string): string {
+  return NAMED_COLORS[color.toLowerCase()] ?? (color.startsWith('#') ? color : `#${color}`);
+}
+
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += CHAR_WIDTHS.find(([chars]) => chars.includes(char))?.[1] ?? 7;
+  }
+  return width;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,116 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { CoverageReport, ActionInputs, GitContext, UploadResult, UncoveredChange } from './types';
+import { getFailureReasons } from './compare';
+import { buildSummaryMarkdown } from './summary';
+
+/**
+ * GitHub accepts at most 50 annotations per check run create/update request
+ */
+const ANNOTATIONS_PER_REQUEST = 50;
+
+/**
+ * Check run output text is limited to 65,535 characters
+ */
+const MAX_SUMMARY_LENGTH = 65535;
+
+interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'warning';
+  title: string;
+  message: string;
+}
+
+/**
+ * Create a check run with the coverage summary and annotations on uncovered changed lines
+ */
+export async function createCheckRun(
+  report: CoverageReport,
+  inputs: ActionInputs,
+  context: GitContext,
+  uploadResult: UploadResult,
+): Promise<void> {
+  // Get GitHub token from environment
+  const token = process.env.GITHUB_TOKEN;
+  if (!token) {
+    core.warning('GITHUB_TOKEN not available, skipping check run');
+    return;
+  }
+
+  const octokit = github.getOctokit(token);
+  const [owner, repo] = context.repository.split('/');
+
+  const failureReasons = getFailureReasons(report, inputs);
+  const annotations = (report.uncoveredChanges ?? []).map(toAnnotation);
+
+  const summary = buildSummaryMarkdown(report, inputs, context, uploadResult, MAX_SUMMARY_LENGTH);
+
+  const lines = report.current.lines.percentage.toFixed(1);
+  const output = {
+    title: failureReasons[0] ?? `Line coverage ${lines}%`,
+    summary,
+  };
+
+  let checkRun: { id: number; html_url: string | null };
+  try {
+    ({ data: checkRun } = await octokit.rest.checks.create({
+      owner,
+      repo,
+      name: inputs.checkRunName,
+      head_sha: context.commitSha,
+      status: 'completed',
+      conclusion: failureReasons.length > 0 ? 'failure' : 'success',
+      output: { ...output, annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST) },
+    }));
+  } catch (err) {
+    // Fork PRs get a read-only token, and the job may lack checks: write
+    core.warning(
+      `Failed to create check run, skipping it: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return;
+  }
+
+  // Annotations sent with updates are appended to the existing ones
+  for (let i = ANNOTATIONS_PER_REQUEST; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+    try {
+      await octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: checkRun.id,
+        output: { ...output, annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST) },
+      });
+    } catch (err) {
+      // The check run already exists, so keep it with the annotations added so far
+      core.warning(
+        `Failed to add annotations to check run ${checkRun.html_url}, stopping at ${i} of ${annotations.length}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return;
+    }
+  }
+
+  core.info(`Created check run ${checkRun.html_url} with ${annotations.length} annotations`);
+}
+
+/**
+ * Describe an uncovered range as a check run annotation
+ */
+function toAnnotation(change: UncoveredChange): CheckAnnotation {
+  const lines =
+    change.startLine === change.endLine
+      ? `Line ${change.startLine} is`
+      : `Lines ${change.startLine}-${change.endLine} are`;
+
+  return {
+    path: change.path,
+    start_line: change.startLine,
+    end_line: change.endLine,
+    annotation_level: 'warning',
+    title: change.kind === 'added' ? 'Uncovered change' : 'Coverage lost',
+    message:
+      change.kind === 'added'
+        ? `${lines} changed in this PR but not covered by tests`
+        : `${lines} no longer covered by tests, but covered in the baseline`,
+  };
+}
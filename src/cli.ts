@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { getInputs } from './inputs';
+import { deriveLocalContext } from './context';
+import { getFailureReasons, skipsMissingBaseline } from './compare';
+import { runComparison } from './pipeline';
+import { uploadResults } from './upload';
+import { buildSummaryMarkdown } from './summary';
+import { writeHtmlReport, writeReport } from './report';
+import { writeBadge } from './badge';
+import { UploadResult } from './types';
+import { parseCliArgs, USAGE } from './args';
+
+async function main(): Promise<number> {
+  // Progress is logged through @actions/core, which writes to stdout, so keep stdout for the report
+  const writeStdout = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+  try {
+    const options = parseCliArgs(process.argv.slice(2));
+    if (options.help) {
+      writeStdout(`${USAGE}\n`);
+      return 0;
+    }
+
+    const context = deriveLocalContext(options.context);
+
+    // Inputs are read the same way as in the action, so pass flags through the INPUT_* environment
+    for (const [name, value] of Object.entries({
+      ...options.inputs,
+      repository: context.repository,
+    })) {
+      process.env[`INPUT_${name.toUpperCase()}`] = value;
+    }
+
+    const inputs = getInputs();
+    const report = await runComparison(inputs, context);
+
+    if (inputs.badge) {
+      writeBadge(report.current, inputs.badge);
+    }
+    if (options.htmlFile) {
+      await writeHtmlReport(report, options.htmlFile);
+    }
+
+    let uploadedUrls: UploadResult = {};
+    if (inputs.uploadResults && !skipsMissingBaseline(report, inputs)) {
+      uploadedUrls = await uploadResults(inputs, context, options.htmlFile);
+    }
+
+    const markdown = buildSummaryMarkdown(report, inputs, context, uploadedUrls);
+    const json = JSON.stringify(report, null, 2);
+
+    if (options.markdownFile) {
+      fs.mkdirSync(path.dirname(path.resolve(options.markdownFile)), { recursive: true });
+      fs.writeFileSync(options.markdownFile, markdown);
+    }
+    if (options.jsonFile) {
+      await writeReport(report, options.jsonFile);
+    }
+
+    writeStdout(`${options.output === 'json' ? json : markdown}\n`);
+
+    const failureReasons = getFailureReasons(report, inputs);
+    if (failureReasons.length > 0) {
+      console.error(`\nCoverage check failed:\n${failureReasons.join('\n')}`);
+      return 1;
+    }
+
+    return 0;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error('Run compare-coverage --help for usage');
+    return 2;
+  }
+}
+
+// Exit explicitly to close any dangling HTTP connections
+main().then((code) => process.exit(code));
@@ -1,6 +1,18 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { CoverageReport, ActionInputs, GitContext, UploadResult } from './types';
+import { buildTemplateData, loadTemplate, renderWithinLimit } from './template';
+import { determineResult } from './compare';
+
+/**
+ * GitHub rejects comment bodies over 65,536 characters
+ */
+const MAX_COMMENT_LENGTH = 65536;
+
+/**
+ * Start of the hidden marker the action puts at the top of its comments
+ */
+const MARKER_START = '<!-- compare-coverage ';
 
 /**
  * Post or update a PR comment with the coverage report
@@ -25,149 +37,94 @@ export async function postPRComment(
   }
 
   const octokit = github.getOctokit(token);
-  const { comparison } = report;
 
-  // Build the comment body
-  let body = `${inputs.commentHeader}\n\n`;
+  // Build the comment body, leaving room for the marker
+  const marker = buildCommentMarker(inputs.commentId, determineResult(report));
+  const template = loadTemplate(inputs.commentTemplate, 'comment');
+  const data = buildTemplateData(report, inputs, context, uploadResult, 20);
+  const maxLength = MAX_COMMENT_LENGTH - marker.length - 1;
+  const body = `${marker}\n${renderWithinLimit(template, data, maxLength)}`;
 
-  // Summary line with GitHub alert syntax
-  const overallDelta = comparison.overallDelta;
-  const deltaFormatted = formatDelta(overallDelta);
+  const [owner, repo] = context.repository.split('/');
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: context.prNumber,
+    per_page: 100,
+  });
+  const previous = findMarkedComments(comments, inputs.commentId, inputs.commentHeader);
+  const latest = previous[previous.length - 1];
 
-  if (comparison.overallStatus === 'improved') {
-    body += `> [!TIP]\n> Coverage improved by **${deltaFormatted}** overall\n\n`;
-  } else if (comparison.overallStatus === 'regressed') {
-    body += `> [!WARNING]\n> Coverage regressed by **${deltaFormatted}** overall\n\n`;
-  } else {
-    body += `> [!NOTE]\n> Coverage unchanged\n\n`;
+  if (inputs.commentMode === 'update' && latest) {
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: latest.id,
+      body,
+    });
+    core.info(`Updated existing PR comment (ID: ${latest.id})`);
+    return;
   }
 
-  // Metrics table
-  body += '| Metric | Baseline | Current | Delta |\n';
-  body += '|:-------|:--------:|:-------:|------:|\n';
-
-  for (const metric of comparison.metrics) {
-    const baselinePct = formatPercentage(metric.baseline.percentage);
-    const currentPct = formatPercentage(metric.current.percentage);
-    const delta = formatDelta(metric.delta);
-    const deltaStyle =
-      metric.status === 'regressed' ? delta : metric.status === 'improved' ? `**${delta}**` : delta;
-
-    body += `| ${capitalizeFirst(metric.metric)} | ${baselinePct} | ${currentPct} | ${deltaStyle} |\n`;
+  if (inputs.commentMode === 'on-change' && latest?.body?.startsWith(marker)) {
+    core.info(`Coverage result unchanged since PR comment ${latest.id}, not commenting`);
+    return;
   }
 
-  body += '\n';
-
-  // Metadata table
-  body += '<table>\n';
-  body += `<tr><td><strong>Baseline</strong></td><td><code>${inputs.baselineAlias}</code> @ <code>${report.baselineCommitSha.slice(0, 7)}</code></td></tr>\n`;
-  body += `<tr><td><strong>Current</strong></td><td><code>${report.currentCommitSha.slice(0, 7)}</code></td></tr>\n`;
-  body += `<tr><td><strong>Threshold</strong></td><td>${inputs.threshold}%</td></tr>\n`;
-  body += '</table>\n\n';
-
-  // Files with coverage changes
-  if (comparison.files.length > 0) {
-    body += '---\n\n';
-    body += '<details>\n';
-    body += '<summary>Files with coverage changes</summary>\n\n';
-    body += '| File | \u0394 Lines |\n';
-    body += '|:-----|--------:|\n';
-
-    // Show top 20 files
-    const topFiles = comparison.files.slice(0, 20);
-    for (const file of topFiles) {
-      const delta = formatDelta(file.linesDelta);
-      body += `| \`${shortenPath(file.path)}\` | ${delta} |\n`;
+  if (inputs.commentMode === 'recreate') {
+    for (const comment of previous) {
+      await octokit.rest.issues.deleteComment({ owner, repo, comment_id: comment.id });
+      core.info(`Deleted previous PR comment (ID: ${comment.id})`);
     }
-
-    if (comparison.files.length > 20) {
-      body += `\n*...and ${comparison.files.length - 20} more files*\n`;
-    }
-
-    body += '\n</details>\n\n';
   }
 
-  // Upload URL
-  if (uploadResult.uploadUrl) {
-    body += `---\n\n`;
-    body += `**Coverage Report:** [View on BFFLESS](${uploadResult.uploadUrl})\n\n`;
+  if (inputs.commentMode === 'minimize') {
+    for (const comment of previous) {
+      await octokit.graphql(
+        `mutation ($id: ID!) {
+          minimizeComment(input: { subjectId: $id, classifier: OUTDATED }) {
+            clientMutationId
+          }
+        }`,
+        { id: comment.node_id },
+      );
+      core.info(`Minimized previous PR comment (ID: ${comment.id})`);
+    }
   }
 
-  // Footer
-  body += '---\n\n';
-  body += '<table><tr>\n';
-  body += '<td width="96"><img src="https://bffless.app/images/logo-circle.svg" width="96" height="96" /></td>\n';
-  body += '<td valign="top">\n';
-  body += '<strong><a href="https://bffless.app">BFFless</a></strong><br/>\n';
-  body += 'The BFF your frontend deserves<br/>\n';
-  body += '<a href="https://github.com/bffless/compare-coverage">bffless/compare-coverage</a>\n';
-  body += '</td>\n';
-  body += '</tr></table>';
-
-  // Find existing comment by header
-  const [owner, repo] = context.repository.split('/');
-  const { data: comments } = await octokit.rest.issues.listComments({
+  const { data: newComment } = await octokit.rest.issues.createComment({
     owner,
     repo,
     issue_number: context.prNumber,
+    body,
   });
-
-  const botComment = comments.find(
-    (comment) => comment.user?.type === 'Bot' && comment.body?.includes(inputs.commentHeader),
-  );
-
-  if (botComment) {
-    // Update existing comment
-    await octokit.rest.issues.updateComment({
-      owner,
-      repo,
-      comment_id: botComment.id,
-      body,
-    });
-    core.info(`Updated existing PR comment (ID: ${botComment.id})`);
-  } else {
-    // Create new comment
-    const { data: newComment } = await octokit.rest.issues.createComment({
-      owner,
-      repo,
-      issue_number: context.prNumber,
-      body,
-    });
-    core.info(`Created new PR comment (ID: ${newComment.id})`);
-  }
-}
-
-/**
- * Format a percentage value
- */
-function formatPercentage(value: number): string {
-  return `${value.toFixed(1)}%`;
+  core.info(`Created new PR comment (ID: ${newComment.id})`);
 }
 
 /**
- * Format a delta value with sign
+ * Hidden marker identifying the action's comment, recording the result for on-change mode
  */
-function formatDelta(value: number): string {
-  const sign = value > 0 ? '+' : '';
-  return `${sign}${value.toFixed(1)}%`;
+export function buildCommentMarker(commentId: string, result: string): string {
+  return `${markerPrefix(commentId)} result="${result}" -->`;
 }
 
 /**
- * Capitalize first letter
+ * Find the comments posted for a comment ID, oldest first
+ * Comments from versions without the marker are matched by bot author and header instead
  */
-function capitalizeFirst(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1);
+export function findMarkedComments<
+  T extends { body?: string | null; user?: { type?: string } | null },
+>(comments: T[], commentId: string, legacyHeader: string): T[] {
+  const prefix = `${markerPrefix(commentId)} `;
+  return comments.filter(
+    (comment) =>
+      comment.body?.startsWith(prefix) ||
+      (comment.user?.type === 'Bot' &&
+        !comment.body?.startsWith(MARKER_START) &&
+        comment.body?.includes(legacyHeader)),
+  );
 }
 
-/**
- * Shorten a file path for display
- */
-function shortenPath(filePath: string): string {
-  // If path is short enough, return as-is
-  if (filePath.length <= 50) {
-    return filePath;
-  }
-
-  // Otherwise, show last 50 chars with ellipsis
-  return '...' + filePath.slice(-47);
+function markerPrefix(commentId: string): string {
+  return `${MARKER_START}id="${commentId}"`;
 }
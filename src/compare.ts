@@ -5,8 +5,24 @@ import {
   FileComparison,
   ComparisonStatus,
   CoverageMetric,
+  CoverageMetricName,
+  CoverageSummary,
+  ComparisonOptions,
+  FileCoverage,
+  MetricThresholds,
+  MetricMinimums,
+  MinimumGateResult,
+  CoveragePolicy,
+  PolicyResult,
+  PolicyRuleResult,
+  PolicyViolation,
   ActionInputs,
+  ActionOutputs,
+  CoverageReport,
 } from './types';
+import { summarizeFiles } from './metrics';
+import { matchesRule } from './policy';
+import { toPathKey } from './paths';
 
 /**
  * Compare current coverage against baseline
@@ -14,22 +30,39 @@ import {
 export function compareCoverage(
   current: NormalizedCoverage,
   baseline: NormalizedCoverage,
-  threshold: number,
+  options: ComparisonOptions,
 ): CoverageComparison {
-  // Compare each metric
+  const { thresholds } = options;
+
+  // Compare each metric against its own threshold
   const metrics: MetricComparison[] = [
-    compareMetric('statements', baseline.summary.statements, current.summary.statements, threshold),
-    compareMetric('branches', baseline.summary.branches, current.summary.branches, threshold),
-    compareMetric('functions', baseline.summary.functions, current.summary.functions, threshold),
-    compareMetric('lines', baseline.summary.lines, current.summary.lines, threshold),
+    compareMetric(
+      'statements',
+      baseline.summary.statements,
+      current.summary.statements,
+      thresholds.statements,
+    ),
+    compareMetric(
+      'branches',
+      baseline.summary.branches,
+      current.summary.branches,
+      thresholds.branches,
+    ),
+    compareMetric(
+      'functions',
+      baseline.summary.functions,
+      current.summary.functions,
+      thresholds.functions,
+    ),
+    compareMetric('lines', baseline.summary.lines, current.summary.lines, thresholds.lines),
   ];
 
   // Compare files (find files with coverage changes)
-  const files = compareFiles(current, baseline, threshold);
+  const files = compareFiles(current, baseline, options);
 
   // Calculate overall status
   const overallDelta = calculateOverallDelta(metrics);
-  const overallStatus = determineOverallStatus(metrics, threshold);
+  const overallStatus = determineOverallStatus(metrics);
 
   return {
     metrics,
@@ -43,7 +76,7 @@ export function compareCoverage(
  * Compare a single metric between baseline and current
  */
 function compareMetric(
-  metric: 'statements' | 'branches' | 'functions' | 'lines',
+  metric: CoverageMetricName,
   baseline: CoverageMetric,
   current: CoverageMetric,
   threshold: number,
@@ -64,6 +97,7 @@ function compareMetric(
     baseline,
     current,
     delta,
+    threshold,
     status,
   };
 }
@@ -74,26 +108,51 @@ function compareMetric(
 function compareFiles(
   current: NormalizedCoverage,
   baseline: NormalizedCoverage,
-  threshold: number,
+  options: ComparisonOptions,
 ): FileComparison[] {
-  const comparisons: FileComparison[] = [];
+  const changed: FileComparison[] = [];
+  const added: FileComparison[] = [];
+  const removed: FileComparison[] = [];
 
-  // Create maps for quick lookup
-  const baselineFiles = new Map(baseline.files.map((f) => [f.path, f]));
-  const currentFiles = new Map(current.files.map((f) => [f.path, f]));
+  // Create maps for quick lookup, keyed case-insensitively with path-ignore-case
+  const ignoreCase = options.ignoreCase ?? false;
+  const baselineFiles = new Map(baseline.files.map((f) => [toPathKey(f.path, ignoreCase), f]));
+  const currentFiles = new Map(current.files.map((f) => [toPathKey(f.path, ignoreCase), f]));
 
   // Get all unique file paths
-  const allPaths = new Set([...baselineFiles.keys(), ...currentFiles.keys()]);
+  const allKeys = new Set([...baselineFiles.keys(), ...currentFiles.keys()]);
 
-  for (const filePath of allPaths) {
-    const baselineFile = baselineFiles.get(filePath);
-    const currentFile = currentFiles.get(filePath);
+  for (const key of allKeys) {
+    const baselineFile = baselineFiles.get(key);
+    const currentFile = currentFiles.get(key);
+
+    if (!baselineFile && currentFile) {
+      const belowMinimum =
+        options.newFileMinCoverage !== undefined &&
+        currentFile.lines.percentage < options.newFileMinCoverage;
+
+      added.push({
+        path: currentFile.path,
+        linesDelta: 0,
+        status: 'added',
+        current: toSummary(currentFile),
+        ...(belowMinimum && { belowMinimum }),
+      });
+      continue;
+    }
 
-    if (!baselineFile || !currentFile) {
-      // File added or removed - skip for now
+    if (baselineFile && !currentFile) {
+      removed.push({
+        path: baselineFile.path,
+        linesDelta: 0,
+        status: 'removed',
+        baseline: toSummary(baselineFile),
+      });
       continue;
     }
 
+    if (!baselineFile || !currentFile) continue;
+
     const linesDelta = currentFile.lines.percentage - baselineFile.lines.percentage;
 
     // Only include files with meaningful changes
@@ -101,24 +160,42 @@ function compareFiles(
       let status: ComparisonStatus;
       if (linesDelta > 0) {
         status = 'improved';
-      } else if (linesDelta < -threshold) {
+      } else if (linesDelta < -options.thresholds.lines) {
         status = 'regressed';
       } else {
         status = 'unchanged';
       }
 
-      comparisons.push({
-        path: filePath,
+      changed.push({
+        path: currentFile.path,
         linesDelta,
         status,
+        baseline: toSummary(baselineFile),
+        current: toSummary(currentFile),
       });
     }
   }
 
   // Sort by delta (most regressed first, then most improved)
-  comparisons.sort((a, b) => a.linesDelta - b.linesDelta);
+  changed.sort((a, b) => a.linesDelta - b.linesDelta);
+
+  // Least covered new files first
+  added.sort((a, b) => a.current!.lines.percentage - b.current!.lines.percentage);
+  removed.sort((a, b) => a.path.localeCompare(b.path));
 
-  return comparisons;
+  return [...changed, ...added, ...removed];
+}
+
+/**
+ * Strip a file entry down to its four summary metrics
+ */
+function toSummary(file: FileCoverage): CoverageSummary {
+  return {
+    statements: file.statements,
+    branches: file.branches,
+    functions: file.functions,
+    lines: file.lines,
+  };
 }
 
 /**
@@ -134,8 +211,8 @@ function calculateOverallDelta(metrics: MetricComparison[]): number {
 /**
  * Determine overall status based on all metrics
  */
-function determineOverallStatus(metrics: MetricComparison[], threshold: number): ComparisonStatus {
-  // If any metric regressed beyond threshold, overall is regressed
+function determineOverallStatus(metrics: MetricComparison[]): ComparisonStatus {
+  // If any metric regressed beyond its threshold, overall is regressed
   const hasRegression = metrics.some((m) => m.status === 'regressed');
   if (hasRegression) {
     return 'regressed';
@@ -150,13 +227,212 @@ function determineOverallStatus(metrics: MetricComparison[], threshold: number):
   return 'unchanged';
 }
 
+/**
+ * Check current coverage against absolute minimums
+ * Returns undefined when no minimums are configured
+ */
+export function checkMinimums(
+  summary: CoverageSummary,
+  minimums: MetricMinimums,
+): MinimumGateResult | undefined {
+  const entries = Object.entries(minimums) as Array<[CoverageMetricName, number]>;
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const checks = entries.map(([metric, minimum]) => ({
+    metric,
+    minimum,
+    actual: summary[metric].percentage,
+    passed: summary[metric].percentage >= minimum,
+  }));
+
+  return {
+    passed: checks.every((check) => check.passed),
+    checks,
+  };
+}
+
+/**
+ * Evaluate each policy rule against a rollup of the files it matches
+ * Ignore rules are applied before comparison and are skipped here
+ * Without a baseline only minimums can be checked
+ */
+export function evaluatePolicy(
+  current: NormalizedCoverage,
+  baseline: NormalizedCoverage | undefined,
+  policy: CoveragePolicy,
+  ignoreCase = false,
+): PolicyResult {
+  const rules: PolicyRuleResult[] = [];
+
+  for (const rule of policy.rules) {
+    if (rule.ignore) continue;
+
+    const currentFiles = current.files.filter((f) => matchesRule(f.path, rule, ignoreCase));
+    const baselineFiles = (baseline?.files ?? []).filter((f) =>
+      matchesRule(f.path, rule, ignoreCase),
+    );
+    if (currentFiles.length === 0) continue;
+
+    const currentSummary = summarizeFiles(currentFiles);
+    const baselineSummary = baselineFiles.length > 0 ? summarizeFiles(baselineFiles) : undefined;
+    const violations: PolicyViolation[] = [];
+
+    for (const [metric, threshold] of Object.entries(rule.thresholds) as Array<
+      [CoverageMetricName, number]
+    >) {
+      if (!baselineSummary) break;
+
+      const delta = currentSummary[metric].percentage - baselineSummary[metric].percentage;
+      if (delta < -threshold) {
+        violations.push({ metric, kind: 'regression', value: delta, limit: threshold });
+      }
+    }
+
+    for (const [metric, minimum] of Object.entries(rule.minimums) as Array<
+      [CoverageMetricName, number]
+    >) {
+      const actual = currentSummary[metric].percentage;
+      if (actual < minimum) {
+        violations.push({ metric, kind: 'minimum', value: actual, limit: minimum });
+      }
+    }
+
+    rules.push({
+      rule: rule.paths.join(', '),
+      files: currentFiles.length,
+      baseline: baselineSummary,
+      current: currentSummary,
+      violations,
+    });
+  }
+
+  return {
+    passed: rules.every((r) => r.violations.length === 0),
+    rules,
+  };
+}
+
+/**
+ * Collect the reasons the action should fail, one per tripped gate
+ */
+export function getFailureReasons(report: CoverageReport, inputs: ActionInputs): string[] {
+  const reasons: string[] = [];
+  const { comparison, minimums, policy, patch } = report;
+
+  if (!comparison && inputs.missingBaseline === 'fail') {
+    reasons.push('No baseline coverage found to compare against');
+  }
+
+  if (inputs.failOnRegression && comparison?.overallStatus === 'regressed') {
+    const regressed = comparison.metrics
+      .filter((m) => m.status === 'regressed')
+      .map((m) => `${m.metric} ${m.delta.toFixed(1)}% (threshold: ${m.threshold}%)`);
+    reasons.push(`Coverage regressed: ${regressed.join(', ')}`);
+  }
+
+  if (minimums && !minimums.passed) {
+    const failed = minimums.checks
+      .filter((check) => !check.passed)
+      .map((check) => `${check.metric} ${check.actual.toFixed(1)}% < ${check.minimum}%`);
+    reasons.push(`Minimum coverage not met: ${failed.join(', ')}`);
+  }
+
+  // Rule thresholds follow fail-on-regression like the global ones, rule minimums always apply
+  for (const rule of policy?.rules ?? []) {
+    for (const violation of rule.violations) {
+      if (violation.kind === 'regression' && !inputs.failOnRegression) continue;
+      reasons.push(`Coverage policy violated: ${formatPolicyViolation(rule.rule, violation)}`);
+    }
+  }
+
+  if (patch?.status === 'fail') {
+    reasons.push(
+      `Patch coverage ${patch.lines.percentage.toFixed(1)}% is below threshold (${patch.threshold}%)`,
+    );
+  }
+
+  const newFilesBelowMinimum = comparison?.files.filter((f) => f.belowMinimum) ?? [];
+  if (newFilesBelowMinimum.length > 0) {
+    reasons.push(
+      `${newFilesBelowMinimum.length} new file(s) below minimum coverage (${inputs.newFileMinCoverage}%): ` +
+        newFilesBelowMinimum.map((f) => f.path).join(', '),
+    );
+  }
+
+  return reasons;
+}
+
+/**
+ * With missing-baseline: skip, a run without a baseline posts no comment or check run and uploads nothing
+ */
+export function skipsMissingBaseline(report: CoverageReport, inputs: ActionInputs): boolean {
+  return !report.comparison && inputs.missingBaseline === 'skip';
+}
+
 /**
  * Determine if the action should fail based on comparison results
  */
-export function shouldFail(comparison: CoverageComparison, inputs: ActionInputs): boolean {
-  if (!inputs.failOnRegression) {
-    return false;
+export function shouldFail(report: CoverageReport, inputs: ActionInputs): boolean {
+  return getFailureReasons(report, inputs).length > 0;
+}
+
+/**
+ * Determine the overall result reported in the action outputs
+ */
+export function determineResult(report: CoverageReport): ActionOutputs['result'] {
+  const { comparison } = report;
+
+  if (
+    comparison?.overallStatus === 'regressed' ||
+    report.minimums?.passed === false ||
+    report.policy?.passed === false ||
+    report.patch?.status === 'fail' ||
+    comparison?.files.some((f) => f.belowMinimum)
+  ) {
+    return 'fail';
+  }
+
+  if (!comparison) {
+    return 'no-baseline';
+  }
+
+  return comparison.overallStatus === 'improved' ? 'improved' : 'pass';
+}
+
+/**
+ * Format per-metric thresholds for display, collapsing to one value when they match
+ */
+export function formatThresholds(thresholds: MetricThresholds): string {
+  const values = Object.values(thresholds);
+  if (values.every((value) => value === values[0])) {
+    return `${values[0]}%`;
   }
 
-  return comparison.overallStatus === 'regressed';
+  return (Object.entries(thresholds) as Array<[CoverageMetricName, number]>)
+    .map(([metric, value]) => `${metric.charAt(0).toUpperCase() + metric.slice(1)} ${value}%`)
+    .join(' · ');
+}
+
+/**
+ * Format configured minimums for display, e.g. "Lines 80% · Branches 60%"
+ */
+export function formatMinimums(minimums: MinimumGateResult): string {
+  return minimums.checks
+    .map(
+      (check) =>
+        `${check.metric.charAt(0).toUpperCase() + check.metric.slice(1)} ${check.minimum}%`,
+    )
+    .join(' · ');
+}
+
+/**
+ * Describe a policy violation, e.g. "src/core/**: lines -1.2% (threshold: 0%)"
+ */
+export function formatPolicyViolation(rule: string, violation: PolicyViolation): string {
+  const { metric, kind, value, limit } = violation;
+  return kind === 'regression'
+    ? `${rule}: ${metric} ${value.toFixed(1)}% (threshold: ${limit}%)`
+    : `${rule}: ${metric} ${value.toFixed(1)}% < ${limit}% minimum`;
 }
@@ -1,4 +1,5 @@
 import * as github from '@actions/github';
+import { execFileSync } from 'child_process';
 import { GitContext } from './types';
 
 export function deriveContext(): GitContext {
@@ -8,15 +9,81 @@ export function deriveContext(): GitContext {
   let commitSha: string;
   let branch: string;
   let prNumber: number | undefined;
+  let baseSha: string | undefined;
 
   if (context.eventName === 'pull_request' && context.payload.pull_request) {
     commitSha = context.payload.pull_request.head.sha;
     branch = context.payload.pull_request.head.ref;
     prNumber = context.payload.pull_request.number;
+    baseSha = context.payload.pull_request.base.sha;
   } else {
     commitSha = context.sha;
     branch = context.ref.replace('refs/heads/', '');
   }
 
-  return { repository, commitSha, branch, prNumber };
+  return { repository, commitSha, branch, prNumber, baseSha };
+}
+
+/**
+ * Derive git context outside GitHub Actions
+ * Explicit values win, then common CI variables (GitHub, Jenkins, GitLab), then local git
+ */
+export function deriveLocalContext(overrides: Partial<GitContext> = {}): GitContext {
+  const env = process.env;
+
+  const commitSha =
+    overrides.commitSha ||
+    env.GITHUB_SHA ||
+    env.GIT_COMMIT ||
+    env.CI_COMMIT_SHA ||
+    git(['rev-parse', 'HEAD']) ||
+    'unknown';
+
+  const branch =
+    overrides.branch ||
+    env.CHANGE_BRANCH ||
+    env.BRANCH_NAME ||
+    env.GIT_BRANCH?.replace(/^origin\//, '') ||
+    env.CI_COMMIT_REF_NAME ||
+    git(['rev-parse', '--abbrev-ref', 'HEAD']) ||
+    'unknown';
+
+  const prInput = env.CHANGE_ID || env.CI_MERGE_REQUEST_IID;
+  const prNumber = overrides.prNumber ?? (prInput ? parseInt(prInput, 10) || undefined : undefined);
+
+  const baseSha =
+    overrides.baseSha ||
+    env.CI_MERGE_REQUEST_DIFF_BASE_SHA ||
+    (env.CHANGE_TARGET ? `origin/${env.CHANGE_TARGET}` : undefined);
+
+  const repository =
+    overrides.repository ||
+    env.GITHUB_REPOSITORY ||
+    env.CI_PROJECT_PATH ||
+    getRepositoryFromRemote() ||
+    'local/repository';
+
+  return { repository, commitSha, branch, prNumber, baseSha };
+}
+
+/**
+ * Read owner/repo from the origin remote URL (https or ssh)
+ */
+function getRepositoryFromRemote(): string | undefined {
+  const url = git(['config', '--get', 'remote.origin.url']);
+  return url.match(/[:/]([^/:]+\/[^/]+?)(?:\.git)?$/)?.[1];
+}
+
+/**
+ * Run a git command, returning an empty string when git or the repository is unavailable
+ */
+function git(args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  } catch {
+    return '';
+  }
 }
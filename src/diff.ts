@@ -0,0 +1,143 @@
+import { execFileSync } from 'child_process';
+
+/**
+ * Line ranges of one hunk, on the base and HEAD side
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+/**
+ * A file touched by the diff
+ */
+export interface ChangedFile {
+  lines: Set<number>; // Added/modified line numbers on HEAD
+  hunks: DiffHunk[];
+}
+
+/**
+ * Changed files keyed by repo-relative file path
+ */
+export type ChangedLines = Map<string, ChangedFile>;
+
+/**
+ * Read the lines changed on HEAD since it diverged from the base commit
+ */
+export function getChangedLines(base: string): ChangedLines {
+  let diff: string;
+
+  try {
+    diff = execFileSync(
+      'git',
+      [
+        '-c',
+        'core.quotePath=false',
+        'diff',
+        '--unified=0',
+        '--no-color',
+        '--no-ext-diff',
+        '--diff-filter=AMR',
+        `${base}...HEAD`,
+      ],
+      { encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024 },
+    );
+  } catch (err) {
+    throw new Error(
+      `Failed to read git diff against ${base}: ${err instanceof Error ? err.message : String(err)}\n` +
+        `Make sure the base commit is available locally (e.g. actions/checkout with fetch-depth: 0).`,
+    );
+  }
+
+  return parseDiff(diff);
+}
+
+/**
+ * Parse unified diff output into added/modified line numbers per file
+ * Hunk bodies are skipped by their line counts, so content like "++ x" never reads as a header
+ */
+export function parseDiff(diff: string): ChangedLines {
+  const changed: ChangedLines = new Map();
+  let currentFile: ChangedFile | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of diff.split('\n')) {
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (line.startsWith('-')) {
+        oldRemaining--;
+      } else if (line.startsWith('+')) {
+        newRemaining--;
+      } else if (!line.startsWith('\\')) {
+        // Context line, present on both sides ("\ No newline at end of file" is neither)
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+
+      // Deleted files have no lines on the HEAD side
+      if (target === '/dev/null') {
+        currentFile = null;
+        continue;
+      }
+
+      const filePath = target.replace(/^b\//, '');
+      currentFile = changed.get(filePath) ?? { lines: new Set<number>(), hunks: [] };
+      changed.set(filePath, currentFile);
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      // Hunk header: @@ -start[,count] +start[,count] @@
+      const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (!match) continue;
+
+      const hunk: DiffHunk = {
+        oldStart: parseInt(match[1], 10),
+        oldCount: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+        newStart: parseInt(match[3], 10),
+        newCount: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+      };
+      oldRemaining = hunk.oldCount;
+      newRemaining = hunk.newCount;
+      if (!currentFile) continue;
+
+      currentFile.hunks.push(hunk);
+      for (
+        let lineNumber = hunk.newStart;
+        lineNumber < hunk.newStart + hunk.newCount;
+        lineNumber++
+      ) {
+        currentFile.lines.add(lineNumber);
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Map a HEAD line outside every hunk to its line number on the base side
+ * Returns undefined for lines inside a hunk, which have no unchanged counterpart
+ */
+export function toBaseLine(hunks: DiffHunk[], line: number): number | undefined {
+  let offset = 0;
+
+  for (const hunk of hunks) {
+    // A hunk without new lines sits right after newStart
+    const end = hunk.newStart + Math.max(hunk.newCount, 1);
+    if (line < end) {
+      if (hunk.newCount > 0 && line >= hunk.newStart) return undefined;
+      break;
+    }
+    offset += hunk.newCount - hunk.oldCount;
+  }
+
+  return line - offset;
+}
@@ -8,91 +8,173 @@ import {
   downloadFilesWithPresignedUrls,
   downloadFilesDirect,
 } from '@bffless/artifact-client';
-import { parseBaselineCoverage } from './parse';
+import {
+  COMMON_COVERAGE_FILES,
+  parseBaselineCoverage,
+  resolveCoverageFiles,
+  splitPathInput,
+} from './parse';
+import { getGlobBase, isGlob } from './files';
+import { getFirstParentAncestors, getMergeBase } from './git';
 
 /**
- * Common coverage file names to look for when a directory is provided
+ * Get the BFFLESS path to download and the entries relative to it
+ * Multiple entries share their deepest common directory
  */
-const COMMON_COVERAGE_FILES = [
-  'lcov.info',
-  'coverage.lcov',
-  'coverage-final.json',
-  'coverage.json',
-  'cobertura.xml',
-  'cobertura-coverage.xml',
-  'coverage.xml',
-  'clover.xml',
-  'jacoco.xml',
-  'jacocoTestReport.xml',
-];
+function getRemotePaths(entries: string[]): { basePath: string; relativeEntries: string[] } {
+  const cleaned = entries.map((entry) =>
+    entry.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, ''),
+  );
+  const bases = cleaned.map((entry) => (isGlob(entry) ? getGlobBase(entry) : entry).split('/'));
+
+  const common: string[] = [];
+  for (let i = 0; i < bases[0].length; i++) {
+    const segment = bases[0][i];
+    if (segment === '.' || !bases.every((base) => base[i] === segment)) break;
+    common.push(segment);
+  }
+
+  const basePath = common.join('/');
+
+  return {
+    basePath,
+    relativeEntries: cleaned.map((entry) => path.posix.relative(basePath, entry)),
+  };
+}
 
 /**
- * Find coverage file in a directory
+ * Commits checked for a baseline with the merge-base strategy, starting at the merge-base
  */
-function findCoverageFile(dirPath: string): string | null {
-  for (const filename of COMMON_COVERAGE_FILES) {
-    const filePath = path.join(dirPath, filename);
-    if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
-      return filePath;
+const MAX_BASELINE_ANCESTORS = 20;
+
+/**
+ * BFFLESS baselines are looked up by alias or by the commit they were uploaded for
+ */
+type BaselineLookup = { alias: string } | { commitSha: string };
+
+/**
+ * Download baseline coverage from BFFLESS
+ * With the merge-base strategy the branch's merge-base and its first-parent ancestors are tried
+ * first, then each baseline alias in order until one has coverage files
+ */
+export async function downloadBaseline(
+  inputs: ActionInputs,
+  context: GitContext,
+): Promise<BaselineResult> {
+  // Create temp directory for baseline
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-baseline-'));
+
+  core.info(`Downloading baseline to: ${tempDir}`);
+
+  let mergeBase: string | undefined;
+  if (inputs.baselineStrategy === 'merge-base') {
+    const commits = getBaselineCommits(context);
+    mergeBase = commits?.[0];
+
+    for (const commitSha of commits ?? []) {
+      const result = await tryDownloadBaselineFrom({ commitSha }, inputs, tempDir);
+      if (result) {
+        return { ...result, mergeBase };
+      }
+    }
+
+    if (commits) {
+      core.info(`No baseline found for the merge-base or its ${commits.length - 1} ancestors`);
     }
   }
-  return null;
+
+  for (const alias of inputs.baselineAliases) {
+    const result = await tryDownloadBaselineFrom({ alias }, inputs, tempDir);
+    if (result) {
+      return { ...result, alias, mergeBase };
+    }
+  }
+
+  return {
+    commitSha: '',
+    mergeBase,
+    isPublic: false,
+    outputDir: tempDir,
+    fileCount: 0,
+    files: [],
+  };
 }
 
 /**
- * Resolve the coverage file path - handles both files and directories
+ * Resolve the merge-base with the base commit and the first-parent ancestors to try after it
  */
-function resolveCoveragePath(inputPath: string): string | null {
-  if (!fs.existsSync(inputPath)) {
-    return null;
+function getBaselineCommits(context: GitContext): string[] | undefined {
+  if (!context.baseSha) {
+    core.warning(
+      'baseline-strategy merge-base requires a base commit (pull_request event or --base-sha), falling back to baseline-alias',
+    );
+    return undefined;
   }
 
-  const stat = fs.statSync(inputPath);
-
-  if (stat.isFile()) {
-    return inputPath;
+  try {
+    const mergeBase = getMergeBase(context.baseSha, context.commitSha);
+    core.info(`Merge-base with ${context.baseSha}: ${mergeBase}`);
+    return getFirstParentAncestors(mergeBase, MAX_BASELINE_ANCESTORS);
+  } catch (err) {
+    core.warning(
+      `${err instanceof Error ? err.message : String(err)}\nFalling back to baseline-alias`,
+    );
+    return undefined;
   }
+}
 
-  if (stat.isDirectory()) {
-    return findCoverageFile(inputPath);
+/**
+ * Download the baseline for one alias or commit, treating any error as "try the next one"
+ */
+async function tryDownloadBaselineFrom(
+  lookup: BaselineLookup,
+  inputs: ActionInputs,
+  tempDir: string,
+): Promise<BaselineResult | undefined> {
+  try {
+    return await downloadBaselineFrom(lookup, inputs, tempDir);
+  } catch (err) {
+    core.warning(
+      `Failed to download baseline for ${describeLookup(lookup)}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return undefined;
   }
+}
 
-  return null;
+function describeLookup(lookup: BaselineLookup): string {
+  return 'alias' in lookup ? `alias ${lookup.alias}` : `commit ${lookup.commitSha}`;
 }
 
 /**
- * Download baseline coverage from BFFLESS
+ * Download and parse the baseline for one alias or commit
+ * Each lookup gets its own directory under tempDir, so files from an earlier one never mix in
+ * Returns undefined when BFFLESS has no usable coverage for it
  */
-export async function downloadBaseline(
+async function downloadBaselineFrom(
+  lookup: BaselineLookup,
   inputs: ActionInputs,
-  context: GitContext,
-): Promise<BaselineResult> {
-  // Create temp directory for baseline
-  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-baseline-'));
-
-  core.info(`Downloading baseline to: ${tempDir}`);
+  tempDir: string,
+): Promise<BaselineResult | undefined> {
+  const label = describeLookup(lookup);
+  core.info(`Looking for baseline at ${label}`);
 
   // The baseline-alias refers to a specific path in BFFLESS
-  // We need to extract just the filename portion for the local path
-  const baselinePath = inputs.path.replace(/^\.\//, '').replace(/\/$/, '');
+  // Files come back relative to the requested path, so resolve entries relative to it too
+  const { basePath: baselinePath, relativeEntries } = getRemotePaths(splitPathInput(inputs.path));
 
   const prepareResponse = await requestPrepareBatchDownload(inputs.apiUrl, inputs.apiKey, {
     repository: inputs.repository,
     path: baselinePath,
-    alias: inputs.baselineAlias,
+    ...lookup,
   });
 
   if (prepareResponse.files.length === 0) {
-    core.warning('No baseline files found');
-    return {
-      commitSha: prepareResponse.commitSha,
-      isPublic: prepareResponse.isPublic ?? false,
-      outputDir: tempDir,
-      fileCount: 0,
-      files: [],
-    };
+    core.info(`No baseline files found for ${label}`);
+    return undefined;
   }
 
+  const downloadDir = fs.mkdtempSync(path.join(tempDir, 'lookup-'));
+
   core.info(`Found ${prepareResponse.files.length} baseline files`);
   core.info(`Baseline commit SHA: ${prepareResponse.commitSha}`);
   core.info(`Baseline is public: ${prepareResponse.isPublic ?? false}`);
@@ -102,7 +184,12 @@ export async function downloadBaseline(
   if (prepareResponse.presignedUrlsSupported) {
     // Download using presigned URLs (direct from storage)
     core.info('Downloading baseline directly from storage...');
-    downloadResults = await downloadFilesWithPresignedUrls(prepareResponse.files, tempDir, 10, 3);
+    downloadResults = await downloadFilesWithPresignedUrls(
+      prepareResponse.files,
+      downloadDir,
+      10,
+      3,
+    );
   } else {
     // Fallback to direct download through API
     core.info('Storage does not support presigned URLs, downloading through API...');
@@ -110,10 +197,10 @@ export async function downloadBaseline(
       inputs.apiUrl,
       inputs.apiKey,
       prepareResponse.files,
-      tempDir,
+      downloadDir,
       {
         repository: inputs.repository,
-        alias: inputs.baselineAlias,
+        ...lookup,
       },
       10,
       3,
@@ -138,36 +225,46 @@ export async function downloadBaseline(
 
   core.info(`Successfully downloaded ${downloadResults.success.length} baseline files`);
 
-  // Parse the downloaded coverage file
+  // Parse the downloaded coverage files
   let coverage: NormalizedCoverage | undefined;
 
   if (downloadResults.success.length > 0) {
-    // Files are downloaded relative to the requested path, so they're directly in tempDir
+    // Files are downloaded relative to the requested path, so they're directly in downloadDir
     // e.g., if we request "coverage", files come back as "coverage-final.json" not "coverage/coverage-final.json"
-    const coverageFilePath = resolveCoveragePath(tempDir);
+    let coverageFiles: string[] = [];
+
+    try {
+      coverageFiles = resolveCoverageFiles(relativeEntries, downloadDir);
+    } catch (err) {
+      core.warning(
+        `Baseline coverage file not found in: ${downloadDir}\n` +
+          `${err instanceof Error ? err.message : String(err)}\n` +
+          `Downloaded files: ${downloadResults.success.slice(0, 5).join(', ')}${downloadResults.success.length > 5 ? '...' : ''}\n` +
+          `Looked for: ${COMMON_COVERAGE_FILES.join(', ')}`,
+      );
+    }
 
-    if (coverageFilePath) {
-      core.info(`Found baseline coverage file: ${path.basename(coverageFilePath)}`);
-      const content = fs.readFileSync(coverageFilePath, 'utf-8');
-      const filename = path.basename(coverageFilePath);
+    if (coverageFiles.length > 0) {
+      core.info(
+        `Found baseline coverage files: ${coverageFiles.map((f) => path.relative(downloadDir, f)).join(', ')}`,
+      );
 
       try {
-        coverage = await parseBaselineCoverage(content, filename, inputs.format);
+        coverage = await parseBaselineCoverage(coverageFiles, inputs.format, inputs.pathIgnoreCase);
         core.info(`Parsed baseline coverage: ${coverage.format} format`);
       } catch (err) {
         core.warning(
           `Failed to parse baseline coverage: ${err instanceof Error ? err.message : String(err)}`,
         );
       }
-    } else {
-      core.warning(
-        `Baseline coverage file not found in: ${tempDir}\n` +
-          `Downloaded files: ${downloadResults.success.slice(0, 5).join(', ')}${downloadResults.success.length > 5 ? '...' : ''}\n` +
-          `Looked for: ${COMMON_COVERAGE_FILES.join(', ')}`,
-      );
     }
   }
 
+  if (!coverage) {
+    core.info(`No usable baseline coverage for ${label}`);
+    return undefined;
+  }
+
   return {
     commitSha: prepareResponse.commitSha,
     isPublic: prepareResponse.isPublic ?? false,
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as mimeTypes from 'mime-types';
+import { minimatch } from 'minimatch';
 import { FileInfo } from '@bffless/artifact-client';
 
 /**
@@ -99,3 +100,63 @@ export function validateFile(filePath: string, workingDirectory: string = '.'):
 export function readFileContents(filePath: string): string {
   return fs.readFileSync(filePath, 'utf-8');
 }
+
+/**
+ * Check whether a path contains glob characters
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Get the static directory portion of a glob, e.g. "coverage/{a,b}/lcov.info" -> "coverage"
+ */
+export function getGlobBase(pattern: string): string {
+  const segments = pattern.replace(/\\/g, '/').split('/');
+  const firstGlob = segments.findIndex((segment) => isGlob(segment));
+  const base = firstGlob === -1 ? segments : segments.slice(0, firstGlob);
+  return base.join('/') || '.';
+}
+
+/**
+ * Find files under a root directory matching a glob pattern
+ * Returns absolute paths sorted for stable ordering
+ */
+export function matchFiles(pattern: string, rootDir: string = '.'): string[] {
+  const root = path.resolve(rootDir);
+  const normalizedPattern = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  const absolutePattern = path.isAbsolute(normalizedPattern);
+  const searchDir = path.resolve(root, getGlobBase(normalizedPattern));
+  const matches: string[] = [];
+
+  if (!fs.existsSync(searchDir) || !fs.statSync(searchDir).isDirectory()) {
+    return matches;
+  }
+
+  const walk = (dir: string): void => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      // Never descend into VCS metadata or dependencies
+      if (entry.name === '.git' || entry.name === 'node_modules') {
+        continue;
+      }
+
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        const candidate = absolutePattern
+          ? fullPath.replace(/\\/g, '/')
+          : path.relative(root, fullPath).replace(/\\/g, '/');
+
+        if (minimatch(candidate, normalizedPattern, { dot: true })) {
+          matches.push(fullPath);
+        }
+      }
+    }
+  };
+
+  walk(searchDir);
+
+  return matches.sort();
+}
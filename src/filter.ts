@@ -0,0 +1,39 @@
+import { minimatch } from 'minimatch';
+import { NormalizedCoverage } from './types';
+import { summarizeFiles } from './metrics';
+
+/**
+ * Check whether a file path matches any of the given globs
+ */
+export function matchesAny(filePath: string, patterns: string[], ignoreCase = false): boolean {
+  return patterns.some((pattern) =>
+    minimatch(filePath, pattern, { dot: true, nocase: ignoreCase }),
+  );
+}
+
+/**
+ * Keep files matching an include glob (all files when none are given) and no exclude glob
+ * The summary is recomputed from the remaining files instead of trusting report header totals
+ */
+export function filterCoverage(
+  coverage: NormalizedCoverage,
+  include: string[],
+  exclude: string[],
+  ignoreCase = false,
+): NormalizedCoverage {
+  if (include.length === 0 && exclude.length === 0) {
+    return coverage;
+  }
+
+  const files = coverage.files.filter(
+    (file) =>
+      (include.length === 0 || matchesAny(file.path, include, ignoreCase)) &&
+      !matchesAny(file.path, exclude, ignoreCase),
+  );
+
+  return {
+    ...coverage,
+    summary: summarizeFiles(files),
+    files,
+  };
+}
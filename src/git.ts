@@ -0,0 +1,38 @@
+import { execFileSync } from 'child_process';
+
+/**
+ * Find the commit head branched from, e.g. the base branch commit a PR started on
+ */
+export function getMergeBase(base: string, head: string = 'HEAD'): string {
+  try {
+    return git(['merge-base', base, head]).trim();
+  } catch (err) {
+    throw new Error(
+      `Failed to find the merge-base of ${base} and ${head}: ${err instanceof Error ? err.message : String(err)}\n` +
+        `Make sure the base commit is available locally (e.g. actions/checkout with fetch-depth: 0).`,
+    );
+  }
+}
+
+/**
+ * List a commit followed by its first-parent ancestors, newest first
+ */
+export function getFirstParentAncestors(commit: string, limit: number): string[] {
+  try {
+    return git(['rev-list', '--first-parent', `--max-count=${limit}`, commit])
+      .split('\n')
+      .map((sha) => sha.trim())
+      .filter((sha) => sha.length > 0);
+  } catch (err) {
+    throw new Error(
+      `Failed to read the history of ${commit}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Run a git command in the working directory, throwing when it fails
+ */
+function git(args: string[]): string {
+  return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+}
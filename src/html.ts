@@ -0,0 +1,169 @@
+import { CoverageMetricName, CoverageReport, CoverageSummary, FileComparison } from './types';
+
+const METRICS: CoverageMetricName[] = ['statements', 'branches', 'functions', 'lines'];
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { font-size: 1.5rem; }
+h2 { font-size: 1.15rem; margin-top: 2rem; }
+.meta { color: #59636e; }
+.meta code { background: #eff1f3; padding: 0.1rem 0.3rem; border-radius: 4px; }
+table { border-collapse: collapse; font-size: 0.875rem; }
+th, td { border: 1px solid #d1d9e0; padding: 0.35rem 0.6rem; text-align: right; white-space: nowrap; }
+th { background: #f6f8fa; }
+th[data-sort] { cursor: pointer; user-select: none; }
+th[data-sort]::after { content: ' \\2195'; color: #8c959f; }
+td:first-child, th:first-child { text-align: left; }
+.improved, .added { color: #1a7f37; }
+.regressed { color: #d1242f; }
+.removed, .unchanged { color: #59636e; }
+`;
+
+// Sort the table body by the header's data-column, using data-value when present
+const SORT_SCRIPT = `
+document.querySelectorAll('th[data-sort]').forEach(function (th) {
+  th.addEventListener('click', function () {
+    var table = th.closest('table');
+    var body = table.tBodies[0];
+    var index = parseInt(th.dataset.column, 10);
+    var ascending = th.dataset.order !== 'asc';
+    th.dataset.order = ascending ? 'asc' : 'desc';
+    var value = function (row) {
+      var cell = row.children[index];
+      return cell.dataset.value !== undefined ? cell.dataset.value : cell.textContent;
+    };
+    Array.prototype.slice.call(body.rows).sort(function (a, b) {
+      var x = value(a), y = value(b);
+      var result = th.dataset.sort === 'number' ? (parseFloat(x) || 0) - (parseFloat(y) || 0) : x.localeCompare(y);
+      return ascending ? result : -result;
+    }).forEach(function (row) { body.appendChild(row); });
+  });
+});
+`;
+
+/**
+ * Render the coverage report as a single static HTML page with no external assets
+ */
+export function buildHtmlReport(report: CoverageReport): string {
+  const { comparison } = report;
+
+  let html = '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n';
+  html += '<meta name="viewport" content="width=device-width, initial-scale=1">\n';
+  html += `<title>Coverage Report ${escapeHtml(report.currentCommitSha.slice(0, 7))}</title>\n`;
+  html += `<style>${STYLES}</style>\n</head>\n<body>\n`;
+  html += '<h1>Coverage Report</h1>\n';
+
+  // Metadata
+  let baseline = 'not found';
+  if (report.baselinePath) {
+    baseline = `<code>${escapeHtml(report.baselinePath)}</code>`;
+  } else if (report.baselineCommitSha) {
+    const alias = report.baselineAlias ? `<code>${escapeHtml(report.baselineAlias)}</code> @ ` : '';
+    baseline = `${alias}<code>${escapeHtml(report.baselineCommitSha.slice(0, 7))}</code>`;
+  }
+  html += `<p class="meta">Baseline: ${baseline} &middot; Current: <code>${escapeHtml(report.currentCommitSha.slice(0, 7))}</code> &middot; ${escapeHtml(report.timestamp)}</p>\n`;
+
+  // Metric deltas
+  html += '<h2>Summary</h2>\n';
+  if (comparison) {
+    html += `<p class="${comparison.overallStatus}">Overall: ${comparison.overallStatus} (${formatDelta(comparison.overallDelta)})</p>\n`;
+    html +=
+      '<table>\n<thead><tr><th>Metric</th><th>Baseline</th><th>Current</th><th>Delta</th><th>Status</th></tr></thead>\n<tbody>\n';
+    for (const metric of comparison.metrics) {
+      html += `<tr><td>${capitalizeFirst(metric.metric)}</td>`;
+      html += `<td>${formatMetric(metric.baseline.percentage, metric.baseline.covered, metric.baseline.total)}</td>`;
+      html += `<td>${formatMetric(metric.current.percentage, metric.current.covered, metric.current.total)}</td>`;
+      html += `<td class="${metric.status}">${formatDelta(metric.delta)}</td>`;
+      html += `<td class="${metric.status}">${metric.status}</td></tr>\n`;
+    }
+    html += '</tbody>\n</table>\n';
+  } else {
+    html += '<p>No baseline coverage to compare against yet, showing current coverage only.</p>\n';
+    html += '<table>\n<thead><tr><th>Metric</th><th>Current</th></tr></thead>\n<tbody>\n';
+    for (const metric of METRICS) {
+      const current = report.current[metric];
+      html += `<tr><td>${capitalizeFirst(metric)}</td><td>${formatMetric(current.percentage, current.covered, current.total)}</td></tr>\n`;
+    }
+    html += '</tbody>\n</table>\n';
+  }
+
+  // Per-file comparison, only files whose coverage changed or that were added or removed
+  if (comparison) {
+    html += `<h2>Changed files (${comparison.files.length})</h2>\n`;
+    if (comparison.files.length === 0) {
+      html += '<p>No file coverage changes.</p>\n';
+    } else {
+      html += buildFileTable(comparison.files);
+    }
+  }
+
+  html += `<script>${SORT_SCRIPT}</script>\n</body>\n</html>\n`;
+  return html;
+}
+
+/**
+ * Sortable table with baseline, current and delta for every metric
+ */
+function buildFileTable(files: FileComparison[]): string {
+  let html = '<table>\n<thead>\n<tr><th rowspan="2" data-sort="text" data-column="0">File</th>';
+  html += '<th rowspan="2" data-sort="text" data-column="1">Status</th>';
+  for (const metric of METRICS) {
+    html += `<th colspan="3">${capitalizeFirst(metric)}</th>`;
+  }
+  html += '</tr>\n<tr>';
+  for (let column = 2; column < 2 + METRICS.length * 3; column += 3) {
+    html += `<th data-sort="number" data-column="${column}">Baseline</th>`;
+    html += `<th data-sort="number" data-column="${column + 1}">Current</th>`;
+    html += `<th data-sort="number" data-column="${column + 2}">Delta</th>`;
+  }
+  html += '</tr>\n</thead>\n<tbody>\n';
+
+  for (const file of files) {
+    html += `<tr><td>${escapeHtml(file.path)}</td><td class="${file.status}">${file.status}</td>`;
+    for (const metric of METRICS) {
+      html += formatFileCell(file.baseline, metric);
+      html += formatFileCell(file.current, metric);
+
+      if (file.baseline && file.current) {
+        const delta = file.current[metric].percentage - file.baseline[metric].percentage;
+        const status = delta > 0 ? 'improved' : delta < 0 ? 'regressed' : 'unchanged';
+        html += `<td class="${status}" data-value="${delta}">${formatDelta(delta)}</td>`;
+      } else {
+        html += '<td data-value="">-</td>';
+      }
+    }
+    html += '</tr>\n';
+  }
+
+  html += '</tbody>\n</table>\n';
+  return html;
+}
+
+function formatFileCell(summary: CoverageSummary | undefined, metric: CoverageMetricName): string {
+  if (!summary) {
+    return '<td data-value="">-</td>';
+  }
+  const { percentage, covered, total } = summary[metric];
+  return `<td data-value="${percentage}">${formatMetric(percentage, covered, total)}</td>`;
+}
+
+function formatMetric(percentage: number, covered: number, total: number): string {
+  return `${percentage.toFixed(1)}% <span class="meta">(${covered}/${total})</span>`;
+}
+
+function formatDelta(value: number): string {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(1)}%`;
+}
+
+function capitalizeFirst(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,23 +1,81 @@
 import * as core from '@actions/core';
-import { ActionInputs, CoverageFormat } from './types';
+import {
+  ActionInputs,
+  BadgeOptions,
+  BaselineStrategy,
+  CommentMode,
+  CoverageFormat,
+  CoverageMetricName,
+  MetricMinimums,
+  MetricThresholds,
+  MissingBaselineBehavior,
+} from './types';
 import { deriveContext } from './context';
+import { parsePathReplacements } from './paths';
+import { parseBadgeColors } from './badge';
 
 export function getInputs(): ActionInputs {
   // Required inputs
   const path = core.getInput('path', { required: true });
-  const baselineAlias = core.getInput('baseline-alias', { required: true });
-  const apiUrl = core.getInput('api-url', { required: true });
-  const apiKey = core.getInput('api-key', { required: true });
-  core.setSecret(apiKey);
+
+  // BFFLESS inputs are only needed when the baseline is downloaded
+  const baselinePath = core.getInput('baseline-path') || undefined;
+
+  const baselineStrategyInput = core.getInput('baseline-strategy') || 'alias';
+  if (!['alias', 'merge-base'].includes(baselineStrategyInput)) {
+    throw new Error(
+      `Invalid baseline-strategy: ${baselineStrategyInput}. Must be one of: alias, merge-base`,
+    );
+  }
+  const baselineStrategy = baselineStrategyInput as BaselineStrategy;
+
+  // Aliases are tried in order; with merge-base they are only the fallback
+  const baselineAliases = core.getMultilineInput('baseline-alias', {
+    required: !baselinePath && baselineStrategy === 'alias',
+  });
+  const apiUrl = core.getInput('api-url', { required: !baselinePath });
+  const apiKey = core.getInput('api-key', { required: !baselinePath });
+  if (apiKey) {
+    core.setSecret(apiKey);
+  }
+
+  const missingBaselineInput = core.getInput('missing-baseline') || 'fail';
+  if (!['fail', 'warn', 'skip'].includes(missingBaselineInput)) {
+    throw new Error(
+      `Invalid missing-baseline: ${missingBaselineInput}. Must be one of: fail, warn, skip`,
+    );
+  }
+  const missingBaseline = missingBaselineInput as MissingBaselineBehavior;
 
   // Format option
   const formatInput = core.getInput('format') || 'auto';
-  const validFormats = ['auto', 'lcov', 'istanbul', 'cobertura', 'clover', 'jacoco'];
+  const validFormats = [
+    'auto',
+    'lcov',
+    'istanbul',
+    'cobertura',
+    'clover',
+    'jacoco',
+    'gocover',
+    'coveragepy',
+    'llvmcov',
+    'opencover',
+    'coverlet',
+  ];
   if (!validFormats.includes(formatInput)) {
     throw new Error(`Invalid format: ${formatInput}. Must be one of: ${validFormats.join(', ')}`);
   }
   const format = formatInput as CoverageFormat | 'auto';
 
+  // File filters (one glob per line)
+  const include = core.getMultilineInput('include');
+  const exclude = core.getMultilineInput('exclude');
+
+  // Path normalization
+  const pathReplace = parsePathReplacements(core.getMultilineInput('path-replace'));
+  const pathIgnoreCaseInput = core.getInput('path-ignore-case') || 'false';
+  const pathIgnoreCase = pathIgnoreCaseInput.toLowerCase() === 'true';
+
   // Comparison options
   const thresholdInput = core.getInput('threshold') || '0';
   const threshold = parseFloat(thresholdInput);
@@ -25,14 +83,82 @@ export function getInputs(): ActionInputs {
     throw new Error(`Invalid threshold: ${thresholdInput}. Must be a number between 0 and 100.`);
   }
 
+  // Per-metric thresholds fall back to the shared threshold
+  const thresholds: MetricThresholds = {
+    statements: getThresholdInput('threshold-statements', threshold),
+    branches: getThresholdInput('threshold-branches', threshold),
+    functions: getThresholdInput('threshold-functions', threshold),
+    lines: getThresholdInput('threshold-lines', threshold),
+  };
+
+  // Absolute minimums are only enforced for the metrics that set one
+  const minimums: MetricMinimums = {};
+  for (const metric of ['statements', 'branches', 'functions', 'lines'] as const) {
+    if (core.getInput(`min-${metric}`)) {
+      minimums[metric] = getThresholdInput(`min-${metric}`, 0);
+    }
+  }
+
+  const newFileMinCoverageInput = core.getInput('new-file-min-coverage');
+  let newFileMinCoverage: number | undefined;
+  if (newFileMinCoverageInput) {
+    newFileMinCoverage = parseFloat(newFileMinCoverageInput);
+    if (isNaN(newFileMinCoverage) || newFileMinCoverage < 0 || newFileMinCoverage > 100) {
+      throw new Error(
+        `Invalid new-file-min-coverage: ${newFileMinCoverageInput}. Must be a number between 0 and 100.`,
+      );
+    }
+  }
+
+  // Path-scoped policy file, the default location is optional
+  const policy = core.getInput('policy') || undefined;
+
+  // Patch coverage options
+  const patchCoverageInput = core.getInput('patch-coverage') || 'false';
+  const patchCoverage = patchCoverageInput.toLowerCase() === 'true';
+
+  const patchThresholdInput = core.getInput('patch-threshold') || '0';
+  const patchThreshold = parseFloat(patchThresholdInput);
+  if (isNaN(patchThreshold) || patchThreshold < 0 || patchThreshold > 100) {
+    throw new Error(
+      `Invalid patch-threshold: ${patchThresholdInput}. Must be a number between 0 and 100.`,
+    );
+  }
+  const patchBase = core.getInput('patch-base');
+
+  // Badge options
+  const badgePath = core.getInput('badge-path');
+  const badgeMetric = (core.getInput('badge-metric') || 'lines') as CoverageMetricName;
+  if (!['statements', 'branches', 'functions', 'lines'].includes(badgeMetric)) {
+    throw new Error(
+      `Invalid badge-metric: ${badgeMetric}. Must be one of: statements, branches, functions, lines`,
+    );
+  }
+  const badge: BadgeOptions | undefined = badgePath
+    ? {
+        path: badgePath,
+        metric: badgeMetric,
+        label: core.getInput('badge-label') || 'coverage',
+        colors: parseBadgeColors(core.getMultilineInput('badge-colors')),
+      }
+    : undefined;
+
+  // Check run options
+  const checkRunInput = core.getInput('check-run') || 'false';
+  const checkRun = checkRunInput.toLowerCase() === 'true';
+  const checkRunName = core.getInput('check-run-name') || 'Coverage';
+
   // Upload options
   const uploadResultsInput = core.getInput('upload-results') || 'true';
-  const uploadResults = uploadResultsInput.toLowerCase() !== 'false';
+  let uploadResults = uploadResultsInput.toLowerCase() !== 'false';
+  if (uploadResults && (!apiUrl || !apiKey)) {
+    core.info('api-url and api-key not set, results will not be uploaded');
+    uploadResults = false;
+  }
   const alias = core.getInput('alias') || 'preview';
 
-  // Repository context
-  const context = deriveContext();
-  const repository = core.getInput('repository') || context.repository;
+  // Repository context, only read from GitHub when not given explicitly
+  const repository = core.getInput('repository') || deriveContext().repository;
 
   // Behavior options
   const failOnRegressionInput = core.getInput('fail-on-regression') || 'true';
@@ -45,20 +171,68 @@ export function getInputs(): ActionInputs {
   const commentInput = core.getInput('comment') || 'true';
   const comment = commentInput.toLowerCase() !== 'false';
   const commentHeader = core.getInput('comment-header') || '## Coverage Report';
+  const commentTemplate = core.getInput('comment-template') || undefined;
+  const commentId = core.getInput('comment-id') || 'coverage';
+  const commentModeInput = core.getInput('comment-mode') || 'update';
+  if (!['update', 'recreate', 'minimize', 'on-change'].includes(commentModeInput)) {
+    throw new Error(
+      `Invalid comment-mode: ${commentModeInput}. Must be one of: update, recreate, minimize, on-change`,
+    );
+  }
+  const commentMode = commentModeInput as CommentMode;
+  const summaryTemplate = core.getInput('summary-template') || undefined;
 
   return {
     path,
-    baselineAlias,
+    baselineAliases,
     apiUrl,
     apiKey,
+    baselinePath,
+    missingBaseline,
+    baselineStrategy,
     format,
+    include,
+    exclude,
+    pathReplace,
+    pathIgnoreCase,
     threshold,
+    thresholds,
+    minimums,
+    newFileMinCoverage,
+    policy,
+    patchCoverage,
+    patchThreshold,
+    patchBase,
+    badge,
+    checkRun,
+    checkRunName,
     uploadResults,
     alias,
     repository,
     failOnRegression,
     summary,
+    summaryTemplate,
     comment,
     commentHeader,
+    commentId,
+    commentMode,
+    commentTemplate,
   };
 }
+
+/**
+ * Read an optional percentage input, using the fallback when unset
+ */
+function getThresholdInput(name: string, fallback: number): number {
+  const input = core.getInput(name);
+  if (!input) {
+    return fallback;
+  }
+
+  const value = parseFloat(input);
+  if (isNaN(value) || value < 0 || value > 100) {
+    throw new Error(`Invalid ${name}: ${input}. Must be a number between 0 and 100.`);
+  }
+
+  return value;
+}
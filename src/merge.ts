@@ -0,0 +1,176 @@
+import {
+  ClassCoverage,
+  CoverageMetric,
+  FileCoverage,
+  LineCoverage,
+  NormalizedCoverage,
+} from './types';
+import { calculateMetric, summarizeFiles } from './metrics';
+import { toPathKey } from './paths';
+
+/**
+ * Merge several coverage reports (e.g. test shards or monorepo packages) into one
+ * Files appearing in more than one report are combined rather than counted twice
+ * With ignoreCase, paths differing only in case are the same file
+ */
+export function mergeCoverage(
+  reports: NormalizedCoverage[],
+  ignoreCase = false,
+): NormalizedCoverage {
+  if (reports.length === 0) {
+    throw new Error('No coverage reports to merge');
+  }
+
+  if (reports.length === 1) {
+    return reports[0];
+  }
+
+  const filesByPath = new Map<string, FileCoverage>();
+
+  for (const report of reports) {
+    for (const file of report.files) {
+      const key = toPathKey(file.path, ignoreCase);
+      const existing = filesByPath.get(key);
+      filesByPath.set(key, existing ? mergeFile(existing, file) : file);
+    }
+  }
+
+  const files = [...filesByPath.values()];
+
+  return {
+    format: reports[0].format,
+    summary: summarizeFiles(files),
+    files,
+  };
+}
+
+/**
+ * Merge two coverage entries for the same file
+ */
+function mergeFile(a: FileCoverage, b: FileCoverage): FileCoverage {
+  const module = a.module ?? b.module;
+  const classes = mergeClasses(a.classes, b.classes);
+  const identity = {
+    path: a.path,
+    ...(module !== undefined && { module }),
+    ...(classes && { classes }),
+  };
+
+  if (!a.lineDetails || !b.lineDetails) {
+    // Without line detail we cannot tell which lines overlap, so keep the better of the two
+    return {
+      ...identity,
+      statements: mergeMetric(a.statements, b.statements),
+      branches: mergeMetric(a.branches, b.branches),
+      functions: mergeMetric(a.functions, b.functions),
+      lines: mergeMetric(a.lines, b.lines),
+    };
+  }
+
+  const lineDetails = mergeLineDetails(a.lineDetails, b.lineDetails);
+  const lineValues = Object.values(lineDetails);
+  const lines = calculateMetric(lineValues.filter((l) => l.hits > 0).length, lineValues.length);
+
+  // Branch detail lives on lines, so recompute when either side has it
+  const branchLines = lineValues.filter((l) => l.branches);
+  const branches =
+    branchLines.length > 0
+      ? calculateMetric(
+          branchLines.reduce((sum, l) => sum + l.branches!.taken, 0),
+          branchLines.reduce((sum, l) => sum + l.branches!.total, 0),
+        )
+      : mergeMetric(a.branches, b.branches);
+
+  // Formats without separate statement data (LCOV, Cobertura, Clover) mirror lines
+  const statementsMirrorLines =
+    sameMetric(a.statements, a.lines) && sameMetric(b.statements, b.lines);
+
+  return {
+    ...identity,
+    statements: statementsMirrorLines ? lines : mergeMetric(a.statements, b.statements),
+    branches,
+    functions: mergeMetric(a.functions, b.functions),
+    lines,
+    lineDetails,
+  };
+}
+
+/**
+ * Union two per-line maps, summing hits for lines present in both
+ */
+function mergeLineDetails(
+  a: Record<number, LineCoverage>,
+  b: Record<number, LineCoverage>,
+): Record<number, LineCoverage> {
+  const merged: Record<number, LineCoverage> = {};
+
+  for (const details of [a, b]) {
+    for (const [key, detail] of Object.entries(details)) {
+      const line = Number(key);
+      const existing = merged[line];
+
+      if (!existing) {
+        merged[line] = {
+          hits: detail.hits,
+          ...(detail.branches && { branches: { ...detail.branches } }),
+        };
+        continue;
+      }
+
+      existing.hits += detail.hits;
+
+      // Which branch outcomes each run took is unknown, so the best single run is a safe lower bound
+      if (detail.branches) {
+        existing.branches = {
+          taken: Math.max(existing.branches?.taken ?? 0, detail.branches.taken),
+          total: Math.max(existing.branches?.total ?? 0, detail.branches.total),
+        };
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Union the class breakdowns of two entries, keeping the better metrics for a class in both
+ */
+function mergeClasses(
+  a: ClassCoverage[] | undefined,
+  b: ClassCoverage[] | undefined,
+): ClassCoverage[] | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+
+  const byName = new Map(a.map((cls) => [cls.name, cls]));
+  for (const cls of b) {
+    const existing = byName.get(cls.name);
+    byName.set(
+      cls.name,
+      existing
+        ? {
+            name: cls.name,
+            statements: mergeMetric(existing.statements, cls.statements),
+            branches: mergeMetric(existing.branches, cls.branches),
+            functions: mergeMetric(existing.functions, cls.functions),
+            lines: mergeMetric(existing.lines, cls.lines),
+          }
+        : cls,
+    );
+  }
+
+  return [...byName.values()];
+}
+
+/**
+ * Merge aggregate metrics for the same file without line detail
+ */
+function mergeMetric(a: CoverageMetric, b: CoverageMetric): CoverageMetric {
+  const total = Math.max(a.total, b.total);
+  return calculateMetric(Math.min(total, Math.max(a.covered, b.covered)), total);
+}
+
+function sameMetric(a: CoverageMetric, b: CoverageMetric): boolean {
+  return a.total === b.total && a.covered === b.covered;
+}
@@ -0,0 +1,37 @@
+import { CoverageMetric, CoverageMetricName, CoverageSummary, FileCoverage } from './types';
+
+/**
+ * Build a coverage metric from covered/total counts
+ * An empty metric counts as fully covered
+ */
+export function calculateMetric(covered: number, total: number): CoverageMetric {
+  return {
+    total,
+    covered,
+    percentage: total > 0 ? (covered / total) * 100 : 100,
+  };
+}
+
+/**
+ * Calculate a coverage summary by aggregating file-level metrics
+ */
+export function summarizeFiles(files: FileCoverage[]): CoverageSummary {
+  const aggregate = (metric: CoverageMetricName): CoverageMetric => {
+    let total = 0;
+    let covered = 0;
+
+    for (const file of files) {
+      total += file[metric].total;
+      covered += file[metric].covered;
+    }
+
+    return calculateMetric(covered, total);
+  };
+
+  return {
+    statements: aggregate('statements'),
+    branches: aggregate('branches'),
+    functions: aggregate('functions'),
+    lines: aggregate('lines'),
+  };
+}
@@ -1,14 +1,16 @@
 import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ActionInputs, NormalizedCoverage, CoverageFormat } from './types';
-import { readFileContents } from './files';
+import { ActionInputs, BaselineResult, NormalizedCoverage, CoverageFormat } from './types';
+import { readFileContents, isGlob, matchFiles } from './files';
 import { parseCoverage, detectFormat } from './parsers';
+import { mergeCoverage } from './merge';
+import { resolveSourceRoots } from './paths';
 
 /**
  * Common coverage file names to look for when a directory is provided
  */
-const COMMON_COVERAGE_FILES = [
+export const COMMON_COVERAGE_FILES = [
   'lcov.info',
   'coverage.lcov',
   'coverage-final.json',
@@ -17,14 +19,17 @@ const COMMON_COVERAGE_FILES = [
   'cobertura-coverage.xml',
   'coverage.xml',
   'clover.xml',
+  'coverage.opencover.xml',
   'jacoco.xml',
   'jacocoTestReport.xml',
+  'coverage.out',
+  'cover.out',
 ];
 
 /**
  * Find coverage file in a directory
  */
-function findCoverageFile(dirPath: string): string | null {
+export function findCoverageFile(dirPath: string): string | null {
   for (const filename of COMMON_COVERAGE_FILES) {
     const filePath = path.join(dirPath, filename);
     if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
@@ -37,8 +42,8 @@ function findCoverageFile(dirPath: string): string | null {
 /**
  * Resolve the coverage file path - handles both files and directories
  */
-function resolveCoveragePath(inputPath: string): string {
-  const resolvedPath = path.resolve(inputPath);
+function resolveCoveragePath(inputPath: string, rootDir: string): string {
+  const resolvedPath = path.resolve(rootDir, inputPath);
 
   if (!fs.existsSync(resolvedPath)) {
     throw new Error(`Path does not exist: ${resolvedPath}`);
@@ -70,31 +75,112 @@ function resolveCoveragePath(inputPath: string): string {
 }
 
 /**
- * Parse coverage file from local filesystem
+ * Split the path input into entries - one file, directory or glob per line
  */
-export async function parseLocalCoverage(inputs: ActionInputs): Promise<NormalizedCoverage> {
-  const filePath = resolveCoveragePath(inputs.path);
-  const content = readFileContents(filePath);
-  const filename = path.basename(filePath);
+export function splitPathInput(input: string): string[] {
+  return input
+    .split('\n')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Resolve path entries (files, directories or globs) to coverage files under a root directory
+ */
+export function resolveCoverageFiles(entries: string[], rootDir: string = '.'): string[] {
+  const files = new Set<string>();
+
+  for (const entry of entries) {
+    if (isGlob(entry)) {
+      const matches = matchFiles(entry, rootDir);
+      if (matches.length === 0) {
+        throw new Error(`No coverage files matched pattern: ${entry}`);
+      }
+      matches.forEach((match) => files.add(match));
+    } else {
+      files.add(resolveCoveragePath(entry, rootDir));
+    }
+  }
+
+  return [...files];
+}
+
+/**
+ * Parse one or more coverage files, merging them into a single report
+ */
+export async function parseCoverageFiles(
+  filePaths: string[],
+  format: CoverageFormat | 'auto',
+  ignoreCase = false,
+): Promise<NormalizedCoverage> {
+  const reports: NormalizedCoverage[] = [];
+
+  for (const filePath of filePaths) {
+    const content = readFileContents(filePath);
+    const filename = path.basename(filePath);
+
+    core.info(`Parsing coverage file: ${filePath}`);
 
-  core.info(`Parsing coverage file: ${filePath}`);
+    const coverage = resolveSourceRoots(await parseCoverage(content, filename, format));
 
-  const coverage = await parseCoverage(content, filename, inputs.format);
+    const detectedFormat = format === 'auto' ? detectFormat(content, filename) : format;
+    core.info(`Detected format: ${detectedFormat}`);
+    core.info(`Files in coverage: ${coverage.files.length}`);
 
-  const format = inputs.format === 'auto' ? detectFormat(content, filename) : inputs.format;
-  core.info(`Detected format: ${format}`);
-  core.info(`Files in coverage: ${coverage.files.length}`);
+    reports.push(coverage);
+  }
+
+  if (reports.length > 1) {
+    core.info(`Merging ${reports.length} coverage files`);
+  }
+
+  return mergeCoverage(reports, ignoreCase);
+}
 
-  return coverage;
+/**
+ * Parse coverage files from local filesystem
+ */
+export async function parseLocalCoverage(inputs: ActionInputs): Promise<NormalizedCoverage> {
+  const filePaths = resolveCoverageFiles(splitPathInput(inputs.path));
+  return parseCoverageFiles(filePaths, inputs.format, inputs.pathIgnoreCase);
 }
 
 /**
- * Parse coverage from downloaded baseline content
+ * Parse coverage from downloaded baseline files
  */
 export async function parseBaselineCoverage(
-  content: string,
-  filename: string,
+  filePaths: string[],
   format: CoverageFormat | 'auto',
+  ignoreCase = false,
 ): Promise<NormalizedCoverage> {
-  return parseCoverage(content, filename, format);
+  return parseCoverageFiles(filePaths, format, ignoreCase);
+}
+
+/**
+ * Load baseline coverage from local files (e.g. a downloaded artifact) instead of BFFLESS
+ */
+export async function parseLocalBaseline(
+  baselinePath: string,
+  inputs: ActionInputs,
+): Promise<BaselineResult> {
+  let filePaths: string[];
+  try {
+    filePaths = resolveCoverageFiles(splitPathInput(baselinePath));
+  } catch (err) {
+    // A missing baseline is handled like an alias that was never uploaded
+    core.warning(
+      `Baseline coverage not found: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return { commitSha: '', isPublic: false, fileCount: 0, files: [] };
+  }
+
+  const coverage = await parseBaselineCoverage(filePaths, inputs.format, inputs.pathIgnoreCase);
+
+  return {
+    commitSha: '',
+    isPublic: false,
+    fileCount: filePaths.length,
+    files: filePaths,
+    coverage,
+  };
 }
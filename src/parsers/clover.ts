@@ -1,5 +1,11 @@
 import { XMLParser } from 'fast-xml-parser';
-import { NormalizedCoverage, CoverageSummary, FileCoverage, CoverageMetric } from '../types';
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
 import { CoverageParser } from './index';
 
 /**
@@ -141,11 +147,13 @@ export class CloverParser implements CoverageParser {
 
   private parseFile(file: CloverFile): FileCoverage {
     const filePath = file['@_path'] || file['@_name'];
+    const lineDetails = this.parseLineDetails(file);
 
     if (file.metrics) {
       return {
         path: filePath,
         ...this.parseMetrics(file.metrics),
+        lineDetails,
       };
     }
 
@@ -190,9 +198,40 @@ export class CloverParser implements CoverageParser {
       branches: this.calculateMetric(coveredBranches, totalBranches),
       functions: this.calculateMetric(coveredMethods, totalMethods),
       lines: this.calculateMetric(coveredStatements, totalStatements),
+      lineDetails,
     };
   }
 
+  private parseLineDetails(file: CloverFile): Record<number, LineCoverage> | undefined {
+    if (!file.line) {
+      return undefined;
+    }
+
+    const details: Record<number, LineCoverage> = {};
+    const lines = Array.isArray(file.line) ? file.line : [file.line];
+
+    for (const line of lines) {
+      // Method entries mark declarations, not executable lines
+      if (line['@_type'] === 'method') continue;
+
+      const lineNumber = parseInt(line['@_num'], 10);
+      const detail: LineCoverage = { hits: parseInt(line['@_count'], 10) || 0 };
+
+      if (line['@_type'] === 'cond') {
+        const trueCount = parseInt(line['@_truecount'] || '0', 10);
+        const falseCount = parseInt(line['@_falsecount'] || '0', 10);
+        detail.branches = {
+          taken: (trueCount > 0 ? 1 : 0) + (falseCount > 0 ? 1 : 0),
+          total: 2,
+        };
+      }
+
+      details[lineNumber] = detail;
+    }
+
+    return details;
+  }
+
   private parseMetrics(metrics: CloverMetrics): CoverageSummary {
     const statements = parseInt(metrics['@_statements'] || '0', 10);
     const coveredStatements = parseInt(metrics['@_coveredstatements'] || '0', 10);
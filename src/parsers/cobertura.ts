@@ -1,5 +1,11 @@
 import { XMLParser } from 'fast-xml-parser';
-import { NormalizedCoverage, CoverageSummary, FileCoverage, CoverageMetric } from '../types';
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
 import { CoverageParser } from './index';
 
 /**
@@ -14,6 +20,9 @@ interface CoberturaXml {
     '@_lines-valid'?: string;
     '@_branches-covered'?: string;
     '@_branches-valid'?: string;
+    sources?: {
+      source?: string | string[];
+    };
     packages?: {
       package: CoberturaPackage | CoberturaPackage[];
     };
@@ -94,7 +103,7 @@ export class CoberturaParser implements CoverageParser {
       throw new Error('Invalid Cobertura format: missing coverage element');
     }
 
-    const files: FileCoverage[] = [];
+    const classes: Array<{ name: string; coverage: FileCoverage }> = [];
 
     // Parse packages and classes
     if (data.coverage.packages) {
@@ -104,24 +113,34 @@ export class CoberturaParser implements CoverageParser {
 
       for (const pkg of packages) {
         if (pkg.classes) {
-          const classes = Array.isArray(pkg.classes.class)
+          const pkgClasses = Array.isArray(pkg.classes.class)
             ? pkg.classes.class
             : [pkg.classes.class];
 
-          for (const cls of classes) {
-            files.push(this.parseClass(cls));
+          for (const cls of pkgClasses) {
+            classes.push({ name: cls['@_name'], coverage: this.parseClass(cls) });
           }
         }
       }
     }
 
+    // Several classes (inner classes, multiple classes per module) can share one file
+    const files = this.mergeClassesByFile(classes);
+
     // Calculate summary
     const summary = this.calculateSummary(data.coverage, files);
 
+    // Class filenames are relative to one of the <source> roots
+    const sources = data.coverage.sources?.source;
+    const sourceRoots = (Array.isArray(sources) ? sources : sources !== undefined ? [sources] : [])
+      .map((source) => String(source).trim())
+      .filter(Boolean);
+
     return {
       format: 'cobertura',
       summary,
       files,
+      ...(sourceRoots.length > 0 && { sourceRoots }),
     };
   }
 
@@ -132,6 +151,7 @@ export class CoberturaParser implements CoverageParser {
     let coveredBranches = 0;
     let totalFunctions = 0;
     let coveredFunctions = 0;
+    const lineDetails: Record<number, LineCoverage> = {};
 
     // Parse methods
     if (cls.methods) {
@@ -157,6 +177,10 @@ export class CoberturaParser implements CoverageParser {
           coveredLines++;
         }
 
+        const lineNumber = parseInt(line['@_number'], 10);
+        const detail: LineCoverage = { hits };
+        lineDetails[lineNumber] = detail;
+
         // Parse branch coverage from condition-coverage attribute
         // Format: "50% (1/2)" or "100% (2/2)"
         if (line['@_branch'] === 'true' && line['@_condition-coverage']) {
@@ -166,6 +190,7 @@ export class CoberturaParser implements CoverageParser {
             const branchTotal = parseInt(match[2], 10);
             totalBranches += branchTotal;
             coveredBranches += branchCovered;
+            detail.branches = { taken: branchCovered, total: branchTotal };
           }
         }
       }
@@ -177,9 +202,81 @@ export class CoberturaParser implements CoverageParser {
       branches: this.calculateMetric(coveredBranches, totalBranches),
       functions: this.calculateMetric(coveredFunctions, totalFunctions),
       lines: this.calculateMetric(coveredLines, totalLines),
+      lineDetails,
     };
   }
 
+  /**
+   * Combine classes that share a filename into one file entry
+   * Lines are unioned so lines reported by several classes count once, methods are summed
+   * Branches are summed over the unioned lines: a shared line's condition-coverage describes the
+   * same conditions in every class reporting it, so that line takes the highest count, not the sum
+   */
+  private mergeClassesByFile(
+    classes: Array<{ name: string; coverage: FileCoverage }>,
+  ): FileCoverage[] {
+    const byFile = new Map<string, Array<{ name: string; coverage: FileCoverage }>>();
+    for (const cls of classes) {
+      const group = byFile.get(cls.coverage.path) ?? [];
+      group.push(cls);
+      byFile.set(cls.coverage.path, group);
+    }
+
+    return [...byFile.entries()].map(([path, group]) => {
+      if (group.length === 1) {
+        return group[0].coverage;
+      }
+
+      const lineDetails: Record<number, LineCoverage> = {};
+      for (const { coverage } of group) {
+        for (const [key, detail] of Object.entries(coverage.lineDetails ?? {})) {
+          const line = Number(key);
+          const existing = lineDetails[line];
+          lineDetails[line] = existing
+            ? {
+                hits: Math.max(existing.hits, detail.hits),
+                ...((existing.branches || detail.branches) && {
+                  branches: {
+                    taken: Math.max(existing.branches?.taken ?? 0, detail.branches?.taken ?? 0),
+                    total: Math.max(existing.branches?.total ?? 0, detail.branches?.total ?? 0),
+                  },
+                }),
+              }
+            : detail;
+        }
+      }
+
+      const lineValues = Object.values(lineDetails);
+      const lines = this.calculateMetric(
+        lineValues.filter((line) => line.hits > 0).length,
+        lineValues.length,
+      );
+      const branchLines = lineValues.filter((line) => line.branches);
+
+      return {
+        path,
+        statements: lines,
+        branches: this.calculateMetric(
+          branchLines.reduce((sum, line) => sum + line.branches!.taken, 0),
+          branchLines.reduce((sum, line) => sum + line.branches!.total, 0),
+        ),
+        functions: this.aggregateMetric(
+          group.map(({ coverage }) => coverage),
+          'functions',
+        ),
+        lines,
+        lineDetails,
+        classes: group.map(({ name, coverage }) => ({
+          name,
+          statements: coverage.statements,
+          branches: coverage.branches,
+          functions: coverage.functions,
+          lines: coverage.lines,
+        })),
+      };
+    });
+  }
+
   private calculateSummary(
     coverage: CoberturaXml['coverage'],
     files: FileCoverage[],
@@ -0,0 +1,163 @@
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
+import { calculateMetric } from '../metrics';
+import { CoverageParser } from './index';
+
+/**
+ * coverage.py JSON format (coverage json)
+ * Branch fields are only present when branch coverage was measured
+ */
+interface CoveragePyJson {
+  meta: {
+    version?: string;
+    format?: number;
+    branch_coverage?: boolean;
+  };
+  files: Record<string, CoveragePyFile>;
+  totals: CoveragePySummary;
+}
+
+interface CoveragePyFile {
+  executed_lines: number[];
+  missing_lines: number[];
+  excluded_lines?: number[];
+  executed_branches?: Array<[number, number]>;
+  missing_branches?: Array<[number, number]>;
+  summary: CoveragePySummary;
+  functions?: Record<string, { summary: CoveragePySummary }>; // Format 3+, "" is module-level code
+}
+
+interface CoveragePySummary {
+  covered_lines: number;
+  num_statements: number;
+  missing_lines: number;
+  excluded_lines?: number;
+  num_branches?: number;
+  covered_branches?: number;
+}
+
+/**
+ * Check the coverage.py structure: meta, files and totals at the top level
+ */
+export function isCoveragePyJson(data: unknown): data is CoveragePyJson {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+  const { meta, files, totals } = data as Partial<CoveragePyJson>;
+  return (
+    typeof meta === 'object' &&
+    meta !== null &&
+    typeof files === 'object' &&
+    files !== null &&
+    typeof totals === 'object' &&
+    totals !== null &&
+    'num_statements' in totals
+  );
+}
+
+export class CoveragePyParser implements CoverageParser {
+  detect(content: string, filename: string): boolean {
+    try {
+      return isCoveragePyJson(JSON.parse(content));
+    } catch {
+      return false;
+    }
+  }
+
+  async parse(content: string): Promise<NormalizedCoverage> {
+    let data: unknown;
+
+    try {
+      data = JSON.parse(content);
+    } catch (err) {
+      throw new Error(
+        `Failed to parse coverage.py JSON: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    if (!isCoveragePyJson(data)) {
+      throw new Error('Invalid coverage.py JSON: missing meta, files or totals');
+    }
+
+    const files = Object.entries(data.files).map(([filePath, file]) =>
+      this.parseFile(filePath, file),
+    );
+
+    return {
+      format: 'coveragepy',
+      summary: this.parseTotals(data.totals, files),
+      files,
+    };
+  }
+
+  private parseFile(filePath: string, file: CoveragePyFile): FileCoverage {
+    // Excluded lines (pragma: no cover) are not executable, even if another list mentions them
+    const excluded = new Set(file.excluded_lines ?? []);
+    const lineDetails: Record<number, LineCoverage> = {};
+    for (const line of file.executed_lines) {
+      if (!excluded.has(line)) lineDetails[line] = { hits: 1 };
+    }
+    for (const line of file.missing_lines) {
+      if (!excluded.has(line)) lineDetails[line] = { hits: 0 };
+    }
+
+    // Branches are [from, to] arcs, grouped by the line they leave
+    const arcs = [
+      ...(file.executed_branches ?? []).map(([from]) => ({ from, taken: 1 })),
+      ...(file.missing_branches ?? []).map(([from]) => ({ from, taken: 0 })),
+    ];
+    for (const { from, taken } of arcs) {
+      if (excluded.has(from)) continue;
+      const detail = lineDetails[from] ?? (lineDetails[from] = { hits: 0 });
+      detail.branches = {
+        taken: (detail.branches?.taken ?? 0) + taken,
+        total: (detail.branches?.total ?? 0) + 1,
+      };
+    }
+
+    const lines = calculateMetric(file.summary.covered_lines, file.summary.num_statements);
+
+    return {
+      path: filePath,
+      // coverage.py statements are lines
+      statements: lines,
+      branches: calculateMetric(file.summary.covered_branches ?? 0, file.summary.num_branches ?? 0),
+      functions: this.parseFunctions(file),
+      lines,
+      lineDetails,
+    };
+  }
+
+  /**
+   * Count functions with any executed line, skipping module-level code
+   * Reports before format 3 carry no function data
+   */
+  private parseFunctions(file: CoveragePyFile): CoverageMetric {
+    const functions = Object.entries(file.functions ?? {}).filter(([name]) => name !== '');
+    const covered = functions.filter(([, fn]) => fn.summary.covered_lines > 0).length;
+    return calculateMetric(covered, functions.length);
+  }
+
+  private parseTotals(totals: CoveragePySummary, files: FileCoverage[]): CoverageSummary {
+    const lines = calculateMetric(totals.covered_lines, totals.num_statements);
+    let functionsTotal = 0;
+    let functionsCovered = 0;
+
+    for (const file of files) {
+      functionsTotal += file.functions.total;
+      functionsCovered += file.functions.covered;
+    }
+
+    return {
+      statements: lines,
+      branches: calculateMetric(totals.covered_branches ?? 0, totals.num_branches ?? 0),
+      functions: calculateMetric(functionsCovered, functionsTotal),
+      lines,
+    };
+  }
+}
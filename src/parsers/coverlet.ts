@@ -0,0 +1,154 @@
+import { NormalizedCoverage, FileCoverage, LineCoverage } from '../types';
+import { calculateMetric, summarizeFiles } from '../metrics';
+import { CoverageParser } from './index';
+
+/**
+ * Coverlet JSON format (coverage.json)
+ * Nested by module, source file, class and method
+ */
+type CoverletJson = Record<string, Record<string, Record<string, Record<string, CoverletMethod>>>>;
+
+interface CoverletMethod {
+  Lines: Record<string, number>; // Line number to hits, one per sequence point line
+  Branches?: CoverletBranch[];
+}
+
+interface CoverletBranch {
+  Line: number;
+  Offset?: number;
+  Path?: number;
+  Hits: number;
+}
+
+/**
+ * Check the Coverlet nesting: the first method found has a Lines map
+ */
+export function isCoverletJson(data: unknown): data is CoverletJson {
+  let level: unknown = data;
+  for (let depth = 0; depth < 4; depth++) {
+    if (!level || typeof level !== 'object' || Array.isArray(level)) {
+      return false;
+    }
+    level = Object.values(level)[0];
+  }
+  return !!level && typeof level === 'object' && 'Lines' in level;
+}
+
+export class CoverletParser implements CoverageParser {
+  detect(content: string, filename: string): boolean {
+    try {
+      return isCoverletJson(JSON.parse(content));
+    } catch {
+      return false;
+    }
+  }
+
+  async parse(content: string): Promise<NormalizedCoverage> {
+    let data: unknown;
+
+    try {
+      data = JSON.parse(content);
+    } catch (err) {
+      throw new Error(
+        `Failed to parse Coverlet JSON: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    if (!isCoverletJson(data)) {
+      throw new Error('Invalid Coverlet JSON: expected modules, files, classes and methods');
+    }
+
+    // Files compiled into several modules are combined by path, and their methods by name
+    const methodsByPath = new Map<string, Map<string, CoverletMethod>>();
+    for (const documents of Object.values(data)) {
+      for (const [filePath, classes] of Object.entries(documents)) {
+        const methods = methodsByPath.get(filePath) ?? new Map<string, CoverletMethod>();
+        for (const [className, classMethods] of Object.entries(classes)) {
+          for (const [methodName, method] of Object.entries(classMethods)) {
+            const key = `${className}::${methodName}`;
+            const existing = methods.get(key);
+            methods.set(key, existing ? this.mergeMethods(existing, method) : method);
+          }
+        }
+        methodsByPath.set(filePath, methods);
+      }
+    }
+
+    const files = [...methodsByPath.entries()].map(([filePath, methods]) =>
+      this.parseFile(filePath, [...methods.values()]),
+    );
+
+    return {
+      format: 'coverlet',
+      summary: summarizeFiles(files),
+      files,
+    };
+  }
+
+  /**
+   * Merge the same method reported by two modules: union of lines and branches, highest hits
+   */
+  private mergeMethods(a: CoverletMethod, b: CoverletMethod): CoverletMethod {
+    const lines = { ...a.Lines };
+    for (const [line, hits] of Object.entries(b.Lines ?? {})) {
+      lines[line] = Math.max(lines[line] ?? 0, hits);
+    }
+
+    const branches = new Map<string, CoverletBranch>();
+    for (const branch of [...(a.Branches ?? []), ...(b.Branches ?? [])]) {
+      const key = `${branch.Line}:${branch.Offset}:${branch.Path}`;
+      const existing = branches.get(key);
+      branches.set(key, { ...branch, Hits: Math.max(existing?.Hits ?? 0, branch.Hits) });
+    }
+
+    return { Lines: lines, Branches: [...branches.values()] };
+  }
+
+  private parseFile(filePath: string, methods: CoverletMethod[]): FileCoverage {
+    const lineDetails: Record<number, LineCoverage> = {};
+    let totalFunctions = 0;
+    let coveredFunctions = 0;
+    let totalBranches = 0;
+    let coveredBranches = 0;
+
+    for (const method of methods) {
+      const lines = Object.entries(method.Lines ?? {});
+      if (lines.length === 0) continue;
+
+      totalFunctions++;
+      if (lines.some(([, hits]) => hits > 0)) coveredFunctions++;
+
+      for (const [key, hits] of lines) {
+        const line = Number(key);
+        lineDetails[line] = { hits: Math.max(lineDetails[line]?.hits ?? 0, hits) };
+      }
+    }
+
+    for (const branch of methods.flatMap((method) => method.Branches ?? [])) {
+      const taken = branch.Hits > 0 ? 1 : 0;
+      totalBranches++;
+      coveredBranches += taken;
+
+      // Lines without sequence points are not executable, so only the branch totals count them
+      const detail = lineDetails[branch.Line];
+      if (!detail) continue;
+      detail.branches = {
+        taken: (detail.branches?.taken ?? 0) + taken,
+        total: (detail.branches?.total ?? 0) + 1,
+      };
+    }
+
+    const lineValues = Object.values(lineDetails);
+    const lines = calculateMetric(lineValues.filter((l) => l.hits > 0).length, lineValues.length);
+
+    return {
+      path: filePath,
+      // Coverlet reports sequence points per line, so statements are lines
+      statements: lines,
+      branches: calculateMetric(coveredBranches, totalBranches),
+      functions: calculateMetric(coveredFunctions, totalFunctions),
+      lines,
+      lineDetails,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
+import { CoverageParser } from './index';
+
+/**
+ * Go coverprofile format (go test -coverprofile=coverage.out)
+ *
+ *   mode: set|count|atomic
+ *   github.com/org/repo/pkg/file.go:10.33,12.2 1 1
+ *
+ * Each block line is file:startLine.startCol,endLine.endCol numStatements count
+ */
+interface GoBlock {
+  file: string;
+  startLine: number;
+  endLine: number;
+  statements: number;
+  count: number;
+}
+
+const MODE_PATTERN = /^mode: (set|count|atomic)\s*$/;
+const BLOCK_PATTERN = /^(.+):(\d+)\.(\d+),(\d+)\.(\d+) (\d+) (\d+)$/;
+
+export class GoCoverParser implements CoverageParser {
+  detect(content: string, filename: string): boolean {
+    const firstLine = content.trimStart().split('\n', 1)[0];
+    return MODE_PATTERN.test(firstLine.trim());
+  }
+
+  async parse(content: string): Promise<NormalizedCoverage> {
+    const lines = content.trim().split('\n');
+
+    if (!MODE_PATTERN.test(lines[0]?.trim() ?? '')) {
+      throw new Error('Invalid Go coverprofile: missing "mode:" header');
+    }
+
+    // Merged profiles (e.g. -coverpkg across packages) repeat blocks, so combine by position
+    const blocks = new Map<string, GoBlock>();
+
+    for (const line of lines.slice(1)) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      const match = trimmed.match(BLOCK_PATTERN);
+      if (!match) {
+        throw new Error(`Failed to parse Go coverprofile line: ${trimmed}`);
+      }
+
+      const [, file, startLine, startCol, endLine, endCol, statements, count] = match;
+      const key = `${file}:${startLine}.${startCol},${endLine}.${endCol}`;
+      const existing = blocks.get(key);
+
+      if (existing) {
+        existing.count += parseInt(count, 10);
+      } else {
+        blocks.set(key, {
+          file,
+          startLine: parseInt(startLine, 10),
+          endLine: parseInt(endLine, 10),
+          statements: parseInt(statements, 10),
+          count: parseInt(count, 10),
+        });
+      }
+    }
+
+    if (blocks.size === 0) {
+      throw new Error('Go coverprofile contains no coverage data');
+    }
+
+    const blocksByFile = new Map<string, GoBlock[]>();
+    for (const block of blocks.values()) {
+      const fileBlocks = blocksByFile.get(block.file) ?? [];
+      fileBlocks.push(block);
+      blocksByFile.set(block.file, fileBlocks);
+    }
+
+    const files: FileCoverage[] = [];
+    for (const [filePath, fileBlocks] of blocksByFile) {
+      files.push(this.parseFile(filePath, fileBlocks));
+    }
+
+    return {
+      format: 'gocover',
+      summary: this.aggregateSummary(files),
+      files,
+    };
+  }
+
+  private parseFile(filePath: string, blocks: GoBlock[]): FileCoverage {
+    let totalStatements = 0;
+    let coveredStatements = 0;
+    const lineDetails: Record<number, LineCoverage> = {};
+
+    for (const block of blocks) {
+      totalStatements += block.statements;
+      if (block.count > 0) coveredStatements += block.statements;
+
+      // Blocks share their boundary lines, so a line takes the highest count touching it
+      for (let line = block.startLine; line <= block.endLine; line++) {
+        if (!lineDetails[line] || lineDetails[line].hits < block.count) {
+          lineDetails[line] = { hits: block.count };
+        }
+      }
+    }
+
+    const lineHits = Object.values(lineDetails);
+    const coveredLines = lineHits.filter((l) => l.hits > 0).length;
+
+    return {
+      path: filePath,
+      statements: this.calculateMetric(coveredStatements, totalStatements),
+      // Coverprofiles carry no branch or function information
+      branches: this.calculateMetric(0, 0),
+      functions: this.calculateMetric(0, 0),
+      lines: this.calculateMetric(coveredLines, lineHits.length),
+      lineDetails,
+    };
+  }
+
+  private aggregateSummary(files: FileCoverage[]): CoverageSummary {
+    const aggregate = (
+      metric: 'statements' | 'branches' | 'functions' | 'lines',
+    ): CoverageMetric => {
+      let total = 0;
+      let covered = 0;
+
+      for (const file of files) {
+        total += file[metric].total;
+        covered += file[metric].covered;
+      }
+
+      return {
+        total,
+        covered,
+        percentage: total > 0 ? (covered / total) * 100 : 100,
+      };
+    };
+
+    return {
+      statements: aggregate('statements'),
+      branches: aggregate('branches'),
+      functions: aggregate('functions'),
+      lines: aggregate('lines'),
+    };
+  }
+
+  private calculateMetric(covered: number, total: number): CoverageMetric {
+    return {
+      total,
+      covered,
+      percentage: total > 0 ? (covered / total) * 100 : 100,
+    };
+  }
+}
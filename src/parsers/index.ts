@@ -4,6 +4,11 @@ import { IstanbulParser } from './istanbul';
 import { CoberturaParser } from './cobertura';
 import { CloverParser } from './clover';
 import { JacocoParser } from './jacoco';
+import { GoCoverParser } from './gocover';
+import { CoveragePyParser, isCoveragePyJson } from './coveragepy';
+import { LlvmCovParser, LLVM_EXPORT_TYPE } from './llvmcov';
+import { OpenCoverParser } from './opencover';
+import { CoverletParser, isCoverletJson } from './coverlet';
 
 /**
  * Interface for coverage parsers
@@ -29,6 +34,11 @@ export const parsers: Record<CoverageFormat, CoverageParser> = {
   cobertura: new CoberturaParser(),
   clover: new CloverParser(),
   jacoco: new JacocoParser(),
+  gocover: new GoCoverParser(),
+  coveragepy: new CoveragePyParser(),
+  llvmcov: new LlvmCovParser(),
+  opencover: new OpenCoverParser(),
+  coverlet: new CoverletParser(),
 };
 
 /**
@@ -42,10 +52,21 @@ export function detectFormat(content: string, filename: string): CoverageFormat
     return 'lcov';
   }
 
-  if (ext.endsWith('.json')) {
-    // Could be istanbul/nyc JSON
+  // JSON formats are told apart by structure, whatever the file is called
+  if (ext.endsWith('.json') || content.trimStart().startsWith('{')) {
     try {
       const parsed = JSON.parse(content);
+
+      // llvm-cov export names its own type
+      if (parsed?.type === LLVM_EXPORT_TYPE) {
+        return 'llvmcov';
+      }
+
+      // coverage.py: meta, files and totals at the top level
+      if (isCoveragePyJson(parsed)) {
+        return 'coveragepy';
+      }
+
       // Istanbul coverage-final.json has file paths as keys with coverage data
       const keys = Object.keys(parsed);
       if (keys.length > 0) {
@@ -58,13 +79,28 @@ export function detectFormat(content: string, filename: string): CoverageFormat
           return 'istanbul';
         }
       }
+
+      // Coverlet: modules, then source files, classes and methods with a Lines map
+      if (isCoverletJson(parsed)) {
+        return 'coverlet';
+      }
     } catch {
       // Not valid JSON
     }
   }
 
+  // Go coverprofile: first line is "mode: set|count|atomic"
+  if (/^mode: (set|count|atomic)\s*$/.test(content.trimStart().split('\n', 1)[0].trim())) {
+    return 'gocover';
+  }
+
   // Check content for XML formats
   if (content.includes('<?xml') || content.trim().startsWith('<')) {
+    // OpenCover: <CoverageSession> with modules, files and sequence points
+    if (content.includes('<CoverageSession')) {
+      return 'opencover';
+    }
+
     // Cobertura: <coverage> with line-rate, branch-rate attributes
     if (content.includes('<coverage') && content.includes('line-rate')) {
       return 'cobertura';
@@ -1,4 +1,10 @@
-import { NormalizedCoverage, CoverageSummary, FileCoverage, CoverageMetric } from '../types';
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
 import { CoverageParser } from './index';
 
 /**
@@ -84,6 +90,7 @@ export class IstanbulParser implements CoverageParser {
         branches: this.calculateBranches(file),
         functions: this.calculateFunctions(file),
         lines: this.calculateLines(file),
+        lineDetails: this.parseLineDetails(file),
       };
     });
 
@@ -156,6 +163,34 @@ export class IstanbulParser implements CoverageParser {
     };
   }
 
+  private parseLineDetails(file: IstanbulFileCoverage): Record<number, LineCoverage> {
+    const details: Record<number, LineCoverage> = {};
+
+    // Same rule as istanbul's getLineCoverage: a line takes the highest hit count
+    // of the statements that start on it
+    for (const [key, loc] of Object.entries(file.statementMap || {})) {
+      const line = loc.start.line;
+      const hits = file.s?.[key] ?? 0;
+      if (!details[line] || details[line].hits < hits) {
+        details[line] = { hits };
+      }
+    }
+
+    for (const [key, branch] of Object.entries(file.branchMap || {})) {
+      const line = branch.loc?.start.line ?? branch.locations[0]?.start.line;
+      const detail = line !== undefined ? details[line] : undefined;
+      if (!detail) continue;
+
+      const hits = file.b?.[key] ?? [];
+      const branches = detail.branches ?? { taken: 0, total: 0 };
+      branches.total += branch.locations.length;
+      branches.taken += hits.filter((hit) => hit > 0).length;
+      detail.branches = branches;
+    }
+
+    return details;
+  }
+
   private calculateSummary(files: FileCoverage[]): CoverageSummary {
     const sumMetrics = (metricFn: (f: FileCoverage) => CoverageMetric): CoverageMetric => {
       let total = 0;
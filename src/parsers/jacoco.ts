@@ -1,6 +1,13 @@
 import { XMLParser } from 'fast-xml-parser';
-import { NormalizedCoverage, CoverageSummary, FileCoverage, CoverageMetric } from '../types';
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
 import { CoverageParser } from './index';
+import { toArray } from './xml';
 
 /**
  * JaCoCo XML format
@@ -10,11 +17,22 @@ interface JacocoXml {
   report: {
     '@_name': string;
     sessioninfo?: JacocoSession | JacocoSession[];
+    group?: JacocoGroup | JacocoGroup[];
     package?: JacocoPackage | JacocoPackage[];
     counter?: JacocoCounter | JacocoCounter[];
   };
 }
 
+/**
+ * Module in a multi-module aggregate report, groups can nest
+ */
+interface JacocoGroup {
+  '@_name': string;
+  group?: JacocoGroup | JacocoGroup[];
+  package?: JacocoPackage | JacocoPackage[];
+  counter?: JacocoCounter | JacocoCounter[];
+}
+
 interface JacocoSession {
   '@_id': string;
   '@_start': string;
@@ -97,26 +115,7 @@ export class JacocoParser implements CoverageParser {
       throw new Error('Invalid JaCoCo format: missing report element');
     }
 
-    const files: FileCoverage[] = [];
-
-    // Parse packages
-    if (data.report.package) {
-      const packages = Array.isArray(data.report.package)
-        ? data.report.package
-        : [data.report.package];
-
-      for (const pkg of packages) {
-        // Parse source files within package
-        if (pkg.sourcefile) {
-          const sourceFiles = Array.isArray(pkg.sourcefile) ? pkg.sourcefile : [pkg.sourcefile];
-
-          for (const srcFile of sourceFiles) {
-            const filePath = `${pkg['@_name'].replace(/\//g, '/')}/${srcFile['@_name']}`;
-            files.push(this.parseSourceFile(srcFile, filePath));
-          }
-        }
-      }
-    }
+    const files = this.parseContainer(data.report);
 
     // Calculate summary from report-level counters
     const summary = data.report.counter
@@ -130,12 +129,85 @@ export class JacocoParser implements CoverageParser {
     };
   }
 
-  private parseSourceFile(srcFile: JacocoSourceFile, filePath: string): FileCoverage {
+  /**
+   * Parse the packages of a report or group, recursing into nested groups
+   */
+  private parseContainer(
+    container: JacocoGroup | JacocoXml['report'],
+    module?: string,
+  ): FileCoverage[] {
+    const files: FileCoverage[] = [];
+
+    for (const group of toArray(container.group)) {
+      const name = module ? `${module}/${group['@_name']}` : group['@_name'];
+      files.push(...this.parseContainer(group, name));
+    }
+
+    for (const pkg of toArray(container.package)) {
+      const methods = this.parseClassMethods(pkg);
+
+      for (const srcFile of toArray(pkg.sourcefile)) {
+        // Modules can share package names, so the module keeps their files apart
+        const filePath = [module, pkg['@_name'], srcFile['@_name']].filter(Boolean).join('/');
+        const file = this.parseSourceFile(srcFile, filePath, methods.get(srcFile['@_name']));
+        files.push(module ? { ...file, module } : file);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Sum method coverage per source file from the package's classes
+   * Prefers the class METHOD counter, falling back to counting covered methods
+   */
+  private parseClassMethods(pkg: JacocoPackage): Map<string, CoverageMetric> {
+    const totals = new Map<string, { covered: number; total: number }>();
+
+    for (const cls of toArray(pkg.class)) {
+      const sourceFile = cls['@_sourcefilename'];
+      if (!sourceFile) continue;
+
+      const totalsForFile = totals.get(sourceFile) ?? { covered: 0, total: 0 };
+      const counter = toArray(cls.counter).find((c) => c['@_type'] === 'METHOD');
+
+      if (counter) {
+        const covered = parseInt(counter['@_covered'], 10) || 0;
+        totalsForFile.covered += covered;
+        totalsForFile.total += covered + (parseInt(counter['@_missed'], 10) || 0);
+      } else {
+        for (const method of toArray(cls.method)) {
+          const instructions = toArray(method.counter).find((c) => c['@_type'] === 'INSTRUCTION');
+          totalsForFile.total++;
+          if ((parseInt(instructions?.['@_covered'] ?? '0', 10) || 0) > 0) {
+            totalsForFile.covered++;
+          }
+        }
+      }
+
+      totals.set(sourceFile, totalsForFile);
+    }
+
+    return new Map(
+      [...totals].map(([file, { covered, total }]) => [file, this.calculateMetric(covered, total)]),
+    );
+  }
+
+  private parseSourceFile(
+    srcFile: JacocoSourceFile,
+    filePath: string,
+    methods: CoverageMetric | undefined,
+  ): FileCoverage {
+    const lineDetails = this.parseLineDetails(srcFile);
+
     if (srcFile.counter) {
       const coverage = this.parseCounters(srcFile.counter);
+      const hasMethodCounter = toArray(srcFile.counter).some((c) => c['@_type'] === 'METHOD');
       return {
         path: filePath,
         ...coverage,
+        functions: !hasMethodCounter && methods ? methods : coverage.functions,
+        lineDetails,
       };
     }
 
@@ -171,11 +243,37 @@ export class JacocoParser implements CoverageParser {
       path: filePath,
       statements: this.calculateMetric(coveredInstructions, totalInstructions),
       branches: this.calculateMetric(coveredBranches, totalBranches),
-      functions: { total: 0, covered: 0, percentage: 100 }, // Methods need class-level parsing
+      functions: methods ?? { total: 0, covered: 0, percentage: 100 },
       lines: this.calculateMetric(coveredLines, totalLines),
+      lineDetails,
     };
   }
 
+  private parseLineDetails(srcFile: JacocoSourceFile): Record<number, LineCoverage> | undefined {
+    if (!srcFile.line) {
+      return undefined;
+    }
+
+    const details: Record<number, LineCoverage> = {};
+    const lines = Array.isArray(srcFile.line) ? srcFile.line : [srcFile.line];
+
+    for (const line of lines) {
+      const ci = parseInt(line['@_ci'], 10) || 0;
+      const mb = parseInt(line['@_mb'], 10) || 0;
+      const cb = parseInt(line['@_cb'], 10) || 0;
+
+      // JaCoCo records instruction counts, not execution counts, so a line is hit once or not at all
+      const detail: LineCoverage = { hits: ci > 0 ? 1 : 0 };
+      if (mb + cb > 0) {
+        detail.branches = { taken: cb, total: mb + cb };
+      }
+
+      details[parseInt(line['@_nr'], 10)] = detail;
+    }
+
+    return details;
+  }
+
   private parseCounters(counters: JacocoCounter | JacocoCounter[]): CoverageSummary {
     const counterArray = Array.isArray(counters) ? counters : [counters];
 
@@ -1,5 +1,11 @@
 import * as lcovParse from 'lcov-parse';
-import { NormalizedCoverage, CoverageSummary, FileCoverage, CoverageMetric } from '../types';
+import {
+  NormalizedCoverage,
+  CoverageSummary,
+  FileCoverage,
+  CoverageMetric,
+  LineCoverage,
+} from '../types';
 import { CoverageParser } from './index';
 
 interface LcovFile {
@@ -51,6 +57,7 @@ export class LcovParser implements CoverageParser {
           branches: this.calculateMetric(file.branches.hit, file.branches.found),
           functions: this.calculateMetric(file.functions.hit, file.functions.found),
           lines: this.calculateMetric(file.lines.hit, file.lines.found),
+          lineDetails: this.parseLineDetails(file),
         }));
 
         // Calculate summary by aggregating all files
@@ -65,6 +72,28 @@ export class LcovParser implements CoverageParser {
     });
   }
 
+  private parseLineDetails(file: LcovFile): Record<number, LineCoverage> {
+    const details: Record<number, LineCoverage> = {};
+
+    for (const line of file.lines.details) {
+      // DA records can repeat for the same line (e.g. merged tracefiles)
+      const hits = (details[line.line]?.hits ?? 0) + line.hit;
+      details[line.line] = { hits };
+    }
+
+    for (const branch of file.branches.details) {
+      const detail = details[branch.line];
+      if (!detail) continue;
+
+      const branches = detail.branches ?? { taken: 0, total: 0 };
+      branches.total++;
+      if (branch.taken > 0) branches.taken++;
+      detail.branches = branches;
+    }
+
+    return details;
+  }
+
   private calculateMetric(covered: number, total: number): CoverageMetric {
     return {
       total,
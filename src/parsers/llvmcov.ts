@@ -0,0 +1,159 @@
+import { NormalizedCoverage, CoverageSummary, FileCoverage, LineCoverage } from '../types';
+import { calculateMetric, summarizeFiles } from '../metrics';
+import { CoverageParser } from './index';
+
+export const LLVM_EXPORT_TYPE = 'llvm.coverage.json.export';
+
+/**
+ * llvm-cov export JSON format (llvm-cov export -format=text)
+ * Used by Rust (cargo llvm-cov), C and C++ source-based coverage
+ */
+interface LlvmExport {
+  type: string;
+  version: string;
+  data: LlvmExportData[];
+}
+
+interface LlvmExportData {
+  files: LlvmFile[];
+  totals: LlvmSummary;
+}
+
+interface LlvmFile {
+  filename: string;
+  segments?: LlvmSegment[];
+  branches?: LlvmBranch[];
+  summary: LlvmSummary;
+}
+
+/**
+ * [line, column, count, hasCount, isRegionEntry, isGapRegion]
+ * isGapRegion is missing before export format 2
+ */
+type LlvmSegment = [number, number, number, boolean, boolean, boolean?];
+
+/**
+ * [lineStart, columnStart, lineEnd, columnEnd, trueCount, falseCount, ...]
+ */
+type LlvmBranch = [number, number, number, number, number, number, ...number[]];
+
+interface LlvmSummary {
+  lines: LlvmCount;
+  functions: LlvmCount;
+  regions: LlvmCount;
+  branches?: LlvmCount; // Older exports have no branch coverage
+}
+
+interface LlvmCount {
+  count: number;
+  covered: number;
+}
+
+export class LlvmCovParser implements CoverageParser {
+  detect(content: string, filename: string): boolean {
+    try {
+      return JSON.parse(content)?.type === LLVM_EXPORT_TYPE;
+    } catch {
+      return false;
+    }
+  }
+
+  async parse(content: string): Promise<NormalizedCoverage> {
+    let data: LlvmExport;
+
+    try {
+      data = JSON.parse(content);
+    } catch (err) {
+      throw new Error(
+        `Failed to parse llvm-cov JSON: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    if (data?.type !== LLVM_EXPORT_TYPE || !Array.isArray(data.data)) {
+      throw new Error(`Invalid llvm-cov export: expected type ${LLVM_EXPORT_TYPE}`);
+    }
+
+    const files = data.data.flatMap((entry) => entry.files.map((file) => this.parseFile(file)));
+
+    // Totals are per data entry, so several entries are summed from their files
+    const summary =
+      data.data.length === 1 ? this.parseSummary(data.data[0].totals) : summarizeFiles(files);
+
+    return {
+      format: 'llvmcov',
+      summary,
+      files,
+    };
+  }
+
+  private parseFile(file: LlvmFile): FileCoverage {
+    const lineDetails = this.parseSegments(file.segments ?? []);
+
+    for (const [line, , , , trueCount, falseCount] of file.branches ?? []) {
+      const detail = lineDetails[line] ?? (lineDetails[line] = { hits: 0 });
+      detail.branches = {
+        taken: (detail.branches?.taken ?? 0) + (trueCount > 0 ? 1 : 0) + (falseCount > 0 ? 1 : 0),
+        total: (detail.branches?.total ?? 0) + 2,
+      };
+    }
+
+    return {
+      path: file.filename,
+      ...this.parseSummary(file.summary),
+      lineDetails,
+    };
+  }
+
+  /**
+   * Derive per-line execution counts from region segments, the way llvm-cov does for LCOV
+   * A line takes the count of the region running into it, or of the highest region starting on it
+   */
+  private parseSegments(segments: LlvmSegment[]): Record<number, LineCoverage> {
+    const details: Record<number, LineCoverage> = {};
+    if (segments.length === 0) {
+      return details;
+    }
+
+    const isRegionStart = ([, , , hasCount, isRegionEntry, isGapRegion]: LlvmSegment) =>
+      hasCount && isRegionEntry && !isGapRegion;
+
+    let wrapped: LlvmSegment | undefined;
+    let index = 0;
+    const lastLine = segments[segments.length - 1][0];
+
+    for (let line = segments[0][0]; line <= lastLine; line++) {
+      const lineSegments: LlvmSegment[] = [];
+      while (index < segments.length && segments[index][0] === line) {
+        lineSegments.push(segments[index++]);
+      }
+
+      const skipped = lineSegments.length > 0 && !lineSegments[0][3] && lineSegments[0][4];
+      const starts = lineSegments.filter(isRegionStart);
+      const mapped = !skipped && (wrapped?.[3] || starts.length > 0);
+
+      if (mapped) {
+        let hits = wrapped?.[3] ? wrapped[2] : 0;
+        for (const segment of starts) {
+          hits = Math.max(hits, segment[2]);
+        }
+        details[line] = { hits };
+      }
+
+      if (lineSegments.length > 0) {
+        wrapped = lineSegments[lineSegments.length - 1];
+      }
+    }
+
+    return details;
+  }
+
+  private parseSummary(summary: LlvmSummary): CoverageSummary {
+    return {
+      // Regions are llvm-cov's closest equivalent to statements
+      statements: calculateMetric(summary.regions.covered, summary.regions.count),
+      branches: calculateMetric(summary.branches?.covered ?? 0, summary.branches?.count ?? 0),
+      functions: calculateMetric(summary.functions.covered, summary.functions.count),
+      lines: calculateMetric(summary.lines.covered, summary.lines.count),
+    };
+  }
+}
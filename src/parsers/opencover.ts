@@ -0,0 +1,229 @@
+import { XMLParser } from 'fast-xml-parser';
+import { NormalizedCoverage, FileCoverage, LineCoverage } from '../types';
+import { calculateMetric, summarizeFiles } from '../metrics';
+import { CoverageParser } from './index';
+import { toArray } from './xml';
+
+/**
+ * OpenCover XML format
+ * Used by .NET (Coverlet, OpenCover, AltCover)
+ */
+interface OpenCoverXml {
+  CoverageSession: {
+    Modules?: {
+      Module?: OpenCoverModule | OpenCoverModule[];
+    };
+  };
+}
+
+interface OpenCoverModule {
+  '@_skippedDueTo'?: string;
+  ModuleName?: string;
+  Files?: {
+    File?: OpenCoverFile | OpenCoverFile[];
+  };
+  Classes?: {
+    Class?: OpenCoverClass | OpenCoverClass[];
+  };
+}
+
+interface OpenCoverFile {
+  '@_uid': string;
+  '@_fullPath': string;
+}
+
+interface OpenCoverClass {
+  '@_skippedDueTo'?: string;
+  FullName?: string;
+  Methods?: {
+    Method?: OpenCoverMethod | OpenCoverMethod[];
+  };
+}
+
+interface OpenCoverMethod {
+  '@_skippedDueTo'?: string;
+  Name?: string;
+  FileRef?: { '@_uid': string };
+  SequencePoints?: {
+    SequencePoint?: OpenCoverPoint | OpenCoverPoint[];
+  };
+  BranchPoints?: {
+    BranchPoint?: OpenCoverPoint | OpenCoverPoint[];
+  };
+}
+
+interface OpenCoverPoint {
+  '@_vc': string; // visit count
+  '@_sl': string; // start line
+  '@_sc'?: string; // start column, sequence points only
+  '@_offset'?: string; // IL offset, branch points only
+  '@_path'?: string; // branch taken from the offset, branch points only
+  '@_fileid'?: string;
+}
+
+/**
+ * Visit counts collected for one source file, keyed by position
+ * A file compiled into several modules reports the same points once per module
+ */
+interface FilePoints {
+  sequencePoints: Map<string, { line: number; hits: number }>;
+  branchPoints: Map<string, { line: number; hits: number }>;
+  methods: Map<string, boolean>; // Visited, keyed by method name
+}
+
+export class OpenCoverParser implements CoverageParser {
+  private parser: XMLParser;
+
+  constructor() {
+    this.parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      parseAttributeValue: false,
+    });
+  }
+
+  detect(content: string, filename: string): boolean {
+    if (!filename.toLowerCase().endsWith('.xml')) {
+      if (!content.includes('<?xml') && !content.trim().startsWith('<')) {
+        return false;
+      }
+    }
+    return content.includes('<CoverageSession');
+  }
+
+  async parse(content: string): Promise<NormalizedCoverage> {
+    let data: OpenCoverXml;
+
+    try {
+      data = this.parser.parse(content);
+    } catch (err) {
+      throw new Error(
+        `Failed to parse OpenCover XML: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    if (!data.CoverageSession) {
+      throw new Error('Invalid OpenCover format: missing CoverageSession element');
+    }
+
+    const modules = toArray(data.CoverageSession.Modules?.Module);
+    if (modules.length === 0) {
+      throw new Error('Invalid OpenCover format: no Module elements found');
+    }
+
+    // Files shared between modules are merged by path, taking the highest count per point
+    const pointsByPath = new Map<string, FilePoints>();
+
+    for (const module of modules) {
+      if (module['@_skippedDueTo']) continue;
+
+      // Methods and points refer to files by uid, which is only unique within a module
+      const paths = new Map(
+        toArray(module.Files?.File).map((file) => [file['@_uid'], file['@_fullPath']]),
+      );
+
+      for (const cls of toArray(module.Classes?.Class)) {
+        if (cls['@_skippedDueTo']) continue;
+
+        for (const method of toArray(cls.Methods?.Method)) {
+          if (method['@_skippedDueTo']) continue;
+          this.parseMethod(method, paths, pointsByPath);
+        }
+      }
+    }
+
+    const files = [...pointsByPath.entries()].map(([filePath, points]) =>
+      this.toFileCoverage(filePath, points),
+    );
+
+    return {
+      format: 'opencover',
+      summary: summarizeFiles(files),
+      files,
+    };
+  }
+
+  private parseMethod(
+    method: OpenCoverMethod,
+    paths: Map<string, string>,
+    pointsByPath: Map<string, FilePoints>,
+  ): void {
+    const sequencePoints = toArray(method.SequencePoints?.SequencePoint);
+    // Methods without sequence points are compiler generated or have no source
+    if (sequencePoints.length === 0) {
+      return;
+    }
+
+    const fileId = method.FileRef?.['@_uid'] ?? sequencePoints[0]['@_fileid'];
+    const filePath = fileId !== undefined ? paths.get(fileId) : undefined;
+    if (!filePath) {
+      return;
+    }
+
+    const points = pointsByPath.get(filePath) ?? {
+      sequencePoints: new Map(),
+      branchPoints: new Map(),
+      methods: new Map(),
+    };
+    pointsByPath.set(filePath, points);
+
+    const record = (
+      map: Map<string, { line: number; hits: number }>,
+      key: string,
+      point: OpenCoverPoint,
+    ) => {
+      const hits = parseInt(point['@_vc'], 10) || 0;
+      const line = parseInt(point['@_sl'], 10);
+      map.set(key, { line, hits: Math.max(map.get(key)?.hits ?? 0, hits) });
+      return hits;
+    };
+
+    let visited = false;
+    for (const point of sequencePoints) {
+      const key = `${point['@_sl']}:${point['@_sc'] ?? ''}`;
+      if (record(points.sequencePoints, key, point) > 0) visited = true;
+    }
+
+    const name = method.Name ?? `${sequencePoints[0]['@_sl']}:${sequencePoints[0]['@_sc'] ?? ''}`;
+    points.methods.set(name, visited || (points.methods.get(name) ?? false));
+
+    for (const point of toArray(method.BranchPoints?.BranchPoint)) {
+      const key = `${point['@_sl']}:${point['@_offset'] ?? ''}:${point['@_path'] ?? ''}`;
+      record(points.branchPoints, key, point);
+    }
+  }
+
+  private toFileCoverage(filePath: string, points: FilePoints): FileCoverage {
+    const lineDetails: Record<number, LineCoverage> = {};
+    const sequencePoints = [...points.sequencePoints.values()];
+    const branchPoints = [...points.branchPoints.values()];
+    const methods = [...points.methods.values()];
+
+    // A line holding several sequence points takes the highest visit count
+    for (const { line, hits } of sequencePoints) {
+      lineDetails[line] = { hits: Math.max(lineDetails[line]?.hits ?? 0, hits) };
+    }
+
+    for (const { line, hits } of branchPoints) {
+      const detail = lineDetails[line];
+      // Branches are only attributed to lines that have sequence points
+      if (!detail) continue;
+      detail.branches = {
+        taken: (detail.branches?.taken ?? 0) + (hits > 0 ? 1 : 0),
+        total: (detail.branches?.total ?? 0) + 1,
+      };
+    }
+
+    const lines = Object.values(lineDetails);
+    const covered = (list: Array<{ hits: number }>) => list.filter((p) => p.hits > 0).length;
+
+    return {
+      path: filePath,
+      statements: calculateMetric(covered(sequencePoints), sequencePoints.length),
+      branches: calculateMetric(covered(branchPoints), branchPoints.length),
+      functions: calculateMetric(methods.filter(Boolean).length, methods.length),
+      lines: calculateMetric(covered(lines), lines.length),
+      lineDetails,
+    };
+  }
+}
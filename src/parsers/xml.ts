@@ -0,0 +1,10 @@
+/**
+ * Normalize a parsed XML element to an array
+ * fast-xml-parser yields a single object for one occurrence and undefined for none
+ */
+export function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
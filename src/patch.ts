@@ -0,0 +1,233 @@
+import * as core from '@actions/core';
+import * as path from 'path';
+import {
+  NormalizedCoverage,
+  FileCoverage,
+  PatchCoverage,
+  PatchFileCoverage,
+  UncoveredChange,
+} from './types';
+import { ChangedLines, toBaseLine } from './diff';
+import { toPathKey } from './paths';
+
+/**
+ * Compute coverage of only the lines changed since the base commit
+ * Formats without per-line hit data give an unavailable result instead of failing the run
+ * With ignoreCase, diff and coverage paths are matched case-insensitively
+ */
+export function computePatchCoverage(
+  coverage: NormalizedCoverage,
+  changedLines: ChangedLines,
+  base: string,
+  threshold: number,
+  ignoreCase = false,
+): PatchCoverage {
+  if (!coverage.files.some((f) => f.lineDetails)) {
+    core.warning(
+      `Patch coverage requires per-line hit data, which is not available for the ${coverage.format} format`,
+    );
+    return {
+      base,
+      lines: { total: 0, covered: 0, percentage: 0 },
+      threshold,
+      status: 'unavailable',
+      files: [],
+    };
+  }
+
+  const files: PatchFileCoverage[] = [];
+  const unmatched: string[] = [];
+  const sourceExtensions = new Set(coverage.files.map((f) => path.posix.extname(f.path)));
+  let total = 0;
+  let covered = 0;
+
+  for (const [filePath, { lines }] of changedLines) {
+    const file = findCoverageFile(coverage.files, filePath, ignoreCase);
+    if (!file && sourceExtensions.has(path.posix.extname(filePath))) {
+      unmatched.push(filePath);
+    }
+    if (!file?.lineDetails) {
+      // Not instrumented (e.g. tests, docs, config) - nothing to measure
+      continue;
+    }
+
+    let fileTotal = 0;
+    let fileCovered = 0;
+    const uncoveredLines: number[] = [];
+
+    for (const lineNumber of lines) {
+      const detail = file.lineDetails[lineNumber];
+
+      // Lines without coverage data are not executable (comments, blank lines, types)
+      if (!detail) continue;
+
+      fileTotal++;
+      if (detail.hits > 0) {
+        fileCovered++;
+      } else {
+        uncoveredLines.push(lineNumber);
+      }
+    }
+
+    if (fileTotal === 0) continue;
+
+    total += fileTotal;
+    covered += fileCovered;
+
+    files.push({
+      path: filePath,
+      lines: {
+        total: fileTotal,
+        covered: fileCovered,
+        percentage: (fileCovered / fileTotal) * 100,
+      },
+      uncoveredLines: uncoveredLines.sort((a, b) => a - b),
+    });
+  }
+
+  // Most uncovered lines first
+  files.sort((a, b) => b.uncoveredLines.length - a.uncoveredLines.length);
+
+  // Source files missing from the report are usually a path mismatch rather than untested code
+  if (unmatched.length > 0) {
+    core.warning(
+      `${files.length === 0 ? 'No changed lines were measured. ' : ''}` +
+        `${unmatched.length} changed source files matched no coverage entry, check path-replace if the report uses other paths:\n` +
+        unmatched
+          .slice(0, 10)
+          .map((f) => `  - ${f}`)
+          .join('\n'),
+    );
+  }
+
+  const percentage = total > 0 ? (covered / total) * 100 : 100;
+
+  return {
+    base,
+    lines: { total, covered, percentage },
+    threshold,
+    status: percentage < threshold ? 'fail' : 'pass',
+    files,
+  };
+}
+
+/**
+ * Find the coverage entry for a repo-relative path
+ * Coverage paths may be absolute or relative to a different root, so fall back to suffix matching
+ */
+function findCoverageFile(
+  files: FileCoverage[],
+  filePath: string,
+  ignoreCase: boolean,
+): FileCoverage | undefined {
+  const key = toPathKey(filePath, ignoreCase);
+  const keyOf = (value: string) => toPathKey(value.replace(/\\/g, '/'), ignoreCase);
+  return (
+    files.find((f) => keyOf(f.path) === key) ??
+    files.find((f) => keyOf(f.path).endsWith(`/${key}`)) ??
+    findBySourceSuffix(files, key, keyOf)
+  );
+}
+
+/**
+ * Find the entry whose path ends the diff path, e.g. JaCoCo's package-relative com/x/Foo.java for
+ * src/main/java/com/x/Foo.java, preferring the longest match
+ * Aggregate reports prefix the module, which must then be a directory of the diff path instead
+ */
+function findBySourceSuffix(
+  files: FileCoverage[],
+  key: string,
+  keyOf: (value: string) => string,
+): FileCoverage | undefined {
+  let best: FileCoverage | undefined;
+  let bestLength = 0;
+
+  for (const file of files) {
+    const filePath = keyOf(file.path);
+    const module = file.module && keyOf(file.module);
+    const inModule = !!module && filePath.startsWith(`${module}/`);
+    const relative = inModule ? filePath.slice(module.length + 1) : filePath;
+
+    if (!key.endsWith(`/${relative}`)) continue;
+    if (inModule && !`/${key}`.includes(`/${module}/`)) continue;
+
+    if (relative.length > bestLength) {
+      best = file;
+      bestLength = relative.length;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find uncovered lines of the changed files to annotate on the PR: changed lines without
+ * coverage, and unchanged lines that were covered in the baseline
+ * Unchanged lines are mapped back to their baseline line numbers through the diff hunks
+ */
+export function findUncoveredChanges(
+  coverage: NormalizedCoverage,
+  baseline: NormalizedCoverage | undefined,
+  changedLines: ChangedLines,
+  ignoreCase = false,
+): UncoveredChange[] {
+  const changes: UncoveredChange[] = [];
+  const baselineFiles = new Map(baseline?.files.map((f) => [toPathKey(f.path, ignoreCase), f]));
+
+  for (const [filePath, { lines, hunks }] of changedLines) {
+    const file = findCoverageFile(coverage.files, filePath, ignoreCase);
+    if (!file?.lineDetails) continue;
+
+    const details = file.lineDetails;
+    const uncovered = [...lines].filter((line) => details[line]?.hits === 0);
+
+    for (const [startLine, endLine] of toLineRanges(uncovered.sort((a, b) => a - b))) {
+      changes.push({ path: filePath, startLine, endLine, kind: 'added' });
+    }
+
+    const baselineDetails = baselineFiles.get(toPathKey(file.path, ignoreCase))?.lineDetails;
+    if (!baselineDetails) continue;
+
+    const lost = Object.entries(details)
+      .map(([line, detail]) => ({ line: Number(line), hits: detail.hits }))
+      .filter(({ line, hits }) => {
+        const baseLine = hits === 0 ? toBaseLine(hunks, line) : undefined;
+        return baseLine !== undefined && (baselineDetails[baseLine]?.hits ?? 0) > 0;
+      })
+      .map(({ line }) => line)
+      .sort((a, b) => a - b);
+
+    for (const [startLine, endLine] of toLineRanges(lost)) {
+      changes.push({ path: filePath, startLine, endLine, kind: 'uncovered' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Group sorted line numbers into [start, end] ranges of consecutive lines
+ */
+function toLineRanges(lines: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last[1] + 1) {
+      last[1] = line;
+    } else {
+      ranges.push([line, line]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Format line numbers as compact ranges, e.g. [1, 2, 3, 7] -> "1-3, 7"
+ */
+export function formatLineRanges(lines: number[]): string {
+  return toLineRanges(lines)
+    .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+    .join(', ');
+}
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NormalizedCoverage, PathOptions, PathReplacement } from './types';
+
+/**
+ * GitHub-hosted runner checkouts: /home/runner/work/<repo>/<repo> on Linux, /Users/runner/work on
+ * macOS, D:/a on Windows and /__w inside job containers
+ */
+const RUNNER_WORKSPACE_PATTERN =
+  /^(?:\/home\/runner\/work|\/Users\/runner\/work|[A-Za-z]:\/a|\/__w)\/([^/]+)\/\1\//;
+
+/**
+ * Parse path-replace rules, one "from => to" per line
+ */
+export function parsePathReplacements(lines: string[]): PathReplacement[] {
+  return lines.map((line) => {
+    const separator = line.indexOf('=>');
+    if (separator === -1) {
+      throw new Error(`Invalid path-replace rule: ${line}. Expected "from => to"`);
+    }
+
+    return {
+      from: toForwardSlashes(line.slice(0, separator).trim()),
+      to: toForwardSlashes(line.slice(separator + 2).trim()),
+    };
+  });
+}
+
+/**
+ * Make a coverage file path repo-relative so baseline and current reports line up
+ */
+export function normalizePath(filePath: string, options: PathOptions): string {
+  let normalized = toForwardSlashes(filePath);
+
+  for (const { from, to } of options.replacements) {
+    if (from && normalized.startsWith(from)) {
+      normalized = to + normalized.slice(from.length);
+    }
+  }
+
+  const workspace = toForwardSlashes(options.workspace).replace(/\/+$/, '');
+  if (workspace && normalized.startsWith(`${workspace}/`)) {
+    normalized = normalized.slice(workspace.length + 1);
+  } else {
+    // Reports generated on another runner carry that runner's checkout path
+    const match = normalized.match(RUNNER_WORKSPACE_PATTERN);
+    if (match) {
+      normalized = normalized.slice(match[0].length);
+    }
+  }
+
+  return path.posix.normalize(normalized).replace(/^\.\//, '');
+}
+
+/**
+ * Key for matching the same file across reports and diffs, case-folded with path-ignore-case
+ * Reports keep the original path for display
+ */
+export function toPathKey(filePath: string, ignoreCase: boolean): string {
+  return ignoreCase ? filePath.toLowerCase() : filePath;
+}
+
+/**
+ * Normalize every file path in a coverage report
+ */
+export function normalizeCoverage(
+  coverage: NormalizedCoverage,
+  options: PathOptions,
+): NormalizedCoverage {
+  return {
+    ...coverage,
+    files: coverage.files.map((file) => ({ ...file, path: normalizePath(file.path, options) })),
+  };
+}
+
+/**
+ * Resolve file paths reported relative to a source root (Cobertura <sources>)
+ * With several roots, the first one under which the file exists wins
+ */
+export function resolveSourceRoots(coverage: NormalizedCoverage): NormalizedCoverage {
+  const { sourceRoots, ...rest } = coverage;
+  if (!sourceRoots || sourceRoots.length === 0) {
+    return coverage;
+  }
+
+  const files = coverage.files.map((file) => {
+    if (path.isAbsolute(file.path)) {
+      return file;
+    }
+
+    const candidates = sourceRoots.map((root) => path.join(root, file.path));
+    return { ...file, path: candidates.find((c) => fs.existsSync(c)) ?? candidates[0] };
+  });
+
+  return { ...rest, files };
+}
+
+function toForwardSlashes(value: string): string {
+  return value.replace(/\\/g, '/');
+}
@@ -0,0 +1,232 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import { downloadBaseline } from './download';
+import { parseLocalBaseline, parseLocalCoverage } from './parse';
+import { checkMinimums, compareCoverage, evaluatePolicy } from './compare';
+import { getChangedLines } from './diff';
+import { computePatchCoverage, findUncoveredChanges } from './patch';
+import { applyPolicyIgnores, loadPolicy } from './policy';
+import { filterCoverage } from './filter';
+import { normalizeCoverage } from './paths';
+import {
+  ActionInputs,
+  BaselineResult,
+  CoverageComparison,
+  CoveragePolicy,
+  CoverageReport,
+  GitContext,
+  NormalizedCoverage,
+  PatchCoverage,
+  PathOptions,
+  UncoveredChange,
+} from './types';
+
+/**
+ * Parse current and baseline coverage, compare them and build the report
+ * Shared by the GitHub Action and the CLI
+ */
+export async function runComparison(
+  inputs: ActionInputs,
+  context: GitContext,
+): Promise<CoverageReport> {
+  let baselineDir: string | undefined;
+
+  try {
+    // 1. Parse local coverage file
+    core.info(`\nParsing local coverage from: ${inputs.path}`);
+    let currentCoverage = await parseLocalCoverage(inputs);
+    core.info(`Format: ${currentCoverage.format}`);
+    core.info(`Files: ${currentCoverage.files.length}`);
+    core.info(
+      `Lines: ${currentCoverage.summary.lines.covered}/${currentCoverage.summary.lines.total} (${currentCoverage.summary.lines.percentage.toFixed(1)}%)`,
+    );
+
+    // 2. Load baseline coverage from local files or download it from BFFLESS
+    let baseline: BaselineResult;
+    if (inputs.baselinePath) {
+      core.info(`\nParsing local baseline from: ${inputs.baselinePath}`);
+      baseline = await parseLocalBaseline(inputs.baselinePath, inputs);
+    } else {
+      core.info(`\nDownloading baseline (strategy: ${inputs.baselineStrategy})`);
+      baseline = await downloadBaseline(inputs, context);
+      baselineDir = baseline.outputDir;
+      if (baseline.coverage) {
+        core.info(
+          `Using baseline ${baseline.alias ? `from alias ${baseline.alias}` : `for commit ${baseline.commitSha}`}`,
+        );
+      }
+    }
+
+    if (baseline.coverage) {
+      core.info(
+        `Baseline lines: ${baseline.coverage.summary.lines.covered}/${baseline.coverage.summary.lines.total} (${baseline.coverage.summary.lines.percentage.toFixed(1)}%)`,
+      );
+    } else {
+      const message = `No baseline coverage found ${inputs.baselinePath ? `at ${inputs.baselinePath}` : describeBaselineCandidates(inputs, baseline)}, ${inputs.missingBaseline === 'skip' ? 'skipping comment, check run and upload' : 'reporting current coverage only'}`;
+      // The fail behavior is applied after reporting and uploading, so the next run has a baseline
+      if (inputs.missingBaseline === 'warn') {
+        core.warning(message);
+      } else {
+        core.info(message);
+      }
+    }
+
+    // 3. Make paths repo-relative, filter files on both sides, then apply policy ignores
+    const pathOptions: PathOptions = {
+      workspace: process.env.GITHUB_WORKSPACE || process.cwd(),
+      replacements: inputs.pathReplace,
+    };
+    const policy = loadPolicy(inputs.policy);
+
+    currentCoverage = prepareCoverage(currentCoverage, inputs, pathOptions, policy);
+    const baselineCoverage =
+      baseline.coverage && prepareCoverage(baseline.coverage, inputs, pathOptions, policy);
+
+    if (inputs.include.length > 0 || inputs.exclude.length > 0) {
+      core.info(
+        `\nFiltered to ${currentCoverage.files.length} files, lines: ${currentCoverage.summary.lines.percentage.toFixed(1)}%`,
+      );
+    }
+
+    // 4. Compare coverage
+    let comparison: CoverageComparison | undefined;
+    if (baselineCoverage) {
+      core.info(`\nComparing coverage...`);
+      comparison = compareCoverage(currentCoverage, baselineCoverage, {
+        thresholds: inputs.thresholds,
+        newFileMinCoverage: inputs.newFileMinCoverage,
+        ignoreCase: inputs.pathIgnoreCase,
+      });
+
+      // Log comparison results
+      core.info(`\nComparison Results:`);
+      core.info(`  Overall status: ${comparison.overallStatus}`);
+      core.info(`  Overall delta: ${comparison.overallDelta.toFixed(2)}%`);
+      for (const metric of comparison.metrics) {
+        core.info(
+          `  ${metric.metric}: ${metric.baseline.percentage.toFixed(1)}% -> ${metric.current.percentage.toFixed(1)}% (${metric.delta >= 0 ? '+' : ''}${metric.delta.toFixed(1)}%)`,
+        );
+      }
+    }
+
+    // Evaluate path-scoped policy rules (only minimums without a baseline)
+    const policyResult = policy
+      ? evaluatePolicy(currentCoverage, baselineCoverage, policy, inputs.pathIgnoreCase)
+      : undefined;
+    if (policyResult) {
+      core.info(`\nCoverage policy: ${policyResult.passed ? 'passed' : 'failed'}`);
+      for (const rule of policyResult.rules) {
+        core.info(`  ${rule.rule}: ${rule.files} files, ${rule.violations.length} violation(s)`);
+      }
+    }
+
+    // 5. Check absolute minimums
+    const minimums = checkMinimums(currentCoverage.summary, inputs.minimums);
+    if (minimums) {
+      core.info(`\nMinimum coverage: ${minimums.passed ? 'passed' : 'failed'}`);
+      for (const check of minimums.checks) {
+        core.info(
+          `  ${check.metric}: ${check.actual.toFixed(1)}% (minimum: ${check.minimum}%)${check.passed ? '' : ' - FAILED'}`,
+        );
+      }
+    }
+
+    // 6. Compute patch coverage and uncovered changes (lines changed in this PR)
+    let patch: PatchCoverage | undefined;
+    let uncoveredChanges: UncoveredChange[] | undefined;
+    if (inputs.patchCoverage || inputs.checkRun) {
+      const base = inputs.patchBase || context.baseSha;
+
+      if (!base) {
+        core.warning(
+          'Patch coverage and check run annotations require a base commit (pull_request event or patch-base input), skipping',
+        );
+      } else {
+        core.info(`\nReading changed lines against: ${base}`);
+        const changedLines = getChangedLines(base);
+
+        if (inputs.patchCoverage) {
+          patch = computePatchCoverage(
+            currentCoverage,
+            changedLines,
+            base,
+            inputs.patchThreshold,
+            inputs.pathIgnoreCase,
+          );
+          if (patch.status !== 'unavailable') {
+            core.info(
+              `  Patch lines: ${patch.lines.covered}/${patch.lines.total} (${patch.lines.percentage.toFixed(1)}%)`,
+            );
+          }
+        }
+
+        if (inputs.checkRun) {
+          uncoveredChanges = findUncoveredChanges(
+            currentCoverage,
+            baselineCoverage,
+            changedLines,
+            inputs.pathIgnoreCase,
+          );
+          core.info(`  Uncovered changes: ${uncoveredChanges.length}`);
+        }
+      }
+    }
+
+    // 7. Build report
+    const report: CoverageReport = {
+      timestamp: new Date().toISOString(),
+      baselineAlias: baseline.alias,
+      baselineCommitSha: baseline.commitSha,
+      baselineMergeBase: baseline.mergeBase,
+      baselinePath: inputs.baselinePath,
+      currentCommitSha: context.commitSha,
+      threshold: inputs.threshold,
+      thresholds: inputs.thresholds,
+      format: currentCoverage.format,
+      baseline: baselineCoverage?.summary,
+      current: currentCoverage.summary,
+      comparison,
+      minimums,
+      policy: policyResult,
+      patch,
+      uncoveredChanges,
+    };
+
+    return report;
+  } finally {
+    // Clean up temp baseline directory
+    if (baselineDir && fs.existsSync(baselineDir)) {
+      try {
+        fs.rmSync(baselineDir, { recursive: true });
+        core.info('Cleaned up temporary baseline directory');
+      } catch {
+        core.warning(`Failed to clean up temp directory: ${baselineDir}`);
+      }
+    }
+  }
+}
+
+/**
+ * Normalize paths, apply include/exclude filters and drop files ignored by the policy
+ */
+function prepareCoverage(
+  coverage: NormalizedCoverage,
+  inputs: ActionInputs,
+  pathOptions: PathOptions,
+  policy: CoveragePolicy | undefined,
+): NormalizedCoverage {
+  let prepared = normalizeCoverage(coverage, pathOptions);
+  prepared = filterCoverage(prepared, inputs.include, inputs.exclude, inputs.pathIgnoreCase);
+  return policy ? applyPolicyIgnores(prepared, policy, inputs.pathIgnoreCase) : prepared;
+}
+
+/**
+ * Describe where a BFFLESS baseline was looked for, e.g. "for merge-base abc1234 or alias main"
+ */
+function describeBaselineCandidates(inputs: ActionInputs, baseline: BaselineResult): string {
+  const candidates = [
+    ...(baseline.mergeBase ? [`merge-base ${baseline.mergeBase.slice(0, 7)}`] : []),
+    ...inputs.baselineAliases.map((alias) => `alias ${alias}`),
+  ];
+  return candidates.length > 0 ? `for ${candidates.join(' or ')}` : 'to compare against';
+}
@@ -0,0 +1,128 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import {
+  CoverageMetricName,
+  CoveragePolicy,
+  MetricMinimums,
+  MetricThresholds,
+  NormalizedCoverage,
+  PolicyRule,
+} from './types';
+import { filterCoverage, matchesAny } from './filter';
+
+export const DEFAULT_POLICY_PATH = '.github/coverage-policy.yml';
+
+const METRICS: CoverageMetricName[] = ['statements', 'branches', 'functions', 'lines'];
+
+/**
+ * Load a coverage policy file
+ *
+ *   rules:
+ *     - path: src/core/**
+ *       threshold: 0
+ *     - path: src/legacy/**
+ *       threshold: 2
+ *       min-lines: 40
+ *     - path: src/generated/**
+ *       ignore: true
+ *
+ * Without an explicit path the default location is used only if it exists
+ */
+export function loadPolicy(policyPath?: string): CoveragePolicy | undefined {
+  const filePath = policyPath || DEFAULT_POLICY_PATH;
+
+  if (!fs.existsSync(filePath)) {
+    if (policyPath) {
+      throw new Error(`Coverage policy file not found: ${policyPath}`);
+    }
+    return undefined;
+  }
+
+  let document: unknown;
+  try {
+    document = parseYaml(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse coverage policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const rules = (document as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`Invalid coverage policy ${filePath}: expected a "rules" list`);
+  }
+
+  const policy = { rules: rules.map((rule, index) => parseRule(rule, index)) };
+  core.info(`Loaded coverage policy from ${filePath} (${policy.rules.length} rules)`);
+
+  return policy;
+}
+
+/**
+ * Validate a single policy rule
+ */
+function parseRule(raw: unknown, index: number): PolicyRule {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Invalid coverage policy rule #${index + 1}: expected a mapping`);
+  }
+
+  const rule = raw as Record<string, unknown>;
+  const paths = typeof rule.path === 'string' ? [rule.path] : rule.path;
+  if (!Array.isArray(paths) || paths.length === 0 || paths.some((p) => typeof p !== 'string')) {
+    throw new Error(
+      `Invalid coverage policy rule #${index + 1}: "path" must be a glob or list of globs`,
+    );
+  }
+
+  const thresholds: Partial<MetricThresholds> = {};
+  const minimums: MetricMinimums = {};
+
+  for (const metric of METRICS) {
+    const threshold = rule[`threshold-${metric}`] ?? rule.threshold;
+    if (threshold !== undefined) {
+      thresholds[metric] = getPercentage(threshold, `threshold-${metric}`, index);
+    }
+
+    const minimum = rule[`min-${metric}`];
+    if (minimum !== undefined) {
+      minimums[metric] = getPercentage(minimum, `min-${metric}`, index);
+    }
+  }
+
+  return {
+    paths: paths as string[],
+    thresholds,
+    minimums,
+    ignore: rule.ignore === true,
+  };
+}
+
+function getPercentage(value: unknown, key: string, index: number): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(number) || number < 0 || number > 100) {
+    throw new Error(
+      `Invalid coverage policy rule #${index + 1}: ${key} must be a number between 0 and 100`,
+    );
+  }
+  return number;
+}
+
+/**
+ * Check whether a file path is covered by a rule's globs
+ */
+export function matchesRule(filePath: string, rule: PolicyRule, ignoreCase = false): boolean {
+  return matchesAny(filePath, rule.paths, ignoreCase);
+}
+
+/**
+ * Drop files matched by the policy's ignore rules and recompute the summary
+ */
+export function applyPolicyIgnores(
+  coverage: NormalizedCoverage,
+  policy: CoveragePolicy,
+  ignoreCase = false,
+): NormalizedCoverage {
+  const ignored = policy.rules.filter((rule) => rule.ignore).flatMap((rule) => rule.paths);
+  return filterCoverage(coverage, [], ignored, ignoreCase);
+}
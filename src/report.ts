@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { CoverageReport } from './types';
+import { buildHtmlReport } from './html';
 
 /**
  * Write JSON report to file
@@ -15,3 +16,12 @@ export async function writeReport(report: CoverageReport, reportPath: string): P
   // Write report
   fs.writeFileSync(resolvedPath, JSON.stringify(report, null, 2));
 }
+
+/**
+ * Write the self-contained HTML report to file
+ */
+export async function writeHtmlReport(report: CoverageReport, reportPath: string): Promise<void> {
+  const resolvedPath = path.resolve(reportPath);
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  fs.writeFileSync(resolvedPath, buildHtmlReport(report));
+}
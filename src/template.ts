@@ -0,0 +1,338 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as core from '@actions/core';
+import Mustache from 'mustache';
+import {
+  ActionInputs,
+  CoverageMetricName,
+  CoverageReport,
+  CoverageSummary,
+  FileComparison,
+  FileComparisonStatus,
+  GitContext,
+  TemplateData,
+  TemplateFile,
+  TemplateFileList,
+  TemplateFileMetric,
+  UploadResult,
+} from './types';
+import {
+  determineResult,
+  formatMinimums,
+  formatPolicyViolation,
+  formatThresholds,
+  getFailureReasons,
+} from './compare';
+import { formatLineRanges } from './patch';
+
+const METRICS: CoverageMetricName[] = ['statements', 'branches', 'functions', 'lines'];
+
+/**
+ * Appended when a report is cut to fit the length limit
+ */
+const TRUNCATION_NOTE = '\n\n*...report truncated*';
+
+/**
+ * Built-in templates, shipped next to the bundle
+ */
+const DEFAULT_TEMPLATES = {
+  comment: path.join(__dirname, 'templates', 'comment.md'),
+  summary: path.join(__dirname, 'templates', 'summary.md'),
+};
+
+/**
+ * Read a user template, falling back to the built-in layout
+ */
+export function loadTemplate(
+  templatePath: string | undefined,
+  name: keyof typeof DEFAULT_TEMPLATES,
+): string {
+  if (templatePath && !fs.existsSync(templatePath)) {
+    throw new Error(`Template file not found: ${templatePath}`);
+  }
+  return fs.readFileSync(templatePath || DEFAULT_TEMPLATES[name], 'utf-8');
+}
+
+/**
+ * Render a Mustache template
+ * Values are inserted as-is since the output is Markdown, not HTML
+ */
+export function renderTemplate(template: string, data: TemplateData): string {
+  return Mustache.render(template, data, {}, { escape: (value) => String(value) });
+}
+
+/**
+ * Render a template, collapsing file lists until the output fits in maxLength
+ * Improved files go first, then regressed files, then every file table
+ */
+export function renderWithinLimit(template: string, data: TemplateData, maxLength: number): string {
+  const stages: Array<FileComparisonStatus[] | 'all'> = [
+    [],
+    ['improved'],
+    ['improved', 'regressed'],
+    'all',
+  ];
+
+  let output = '';
+  for (const omit of stages) {
+    output = renderTemplate(template, omit.length === 0 ? data : omitFiles(data, omit));
+    if (output.length <= maxLength) {
+      if (omit.length > 0) {
+        const omitted = omit === 'all' ? 'all' : omit.join(' and ');
+        core.info(`Report shortened to fit ${maxLength} characters by omitting ${omitted} files`);
+      }
+      return output;
+    }
+  }
+
+  core.warning(`Report still exceeds ${maxLength} characters without file tables, truncating it`);
+  return `${output.slice(0, maxLength - TRUNCATION_NOTE.length)}${TRUNCATION_NOTE}`;
+}
+
+/**
+ * Build the data model exposed to templates
+ * File lists are capped at maxFiles in `items`, with the full list in `all`
+ */
+export function buildTemplateData(
+  report: CoverageReport,
+  inputs: ActionInputs,
+  context: GitContext,
+  uploadResult: UploadResult,
+  maxFiles: number,
+): TemplateData {
+  const { comparison } = report;
+  const status = comparison?.overallStatus ?? 'no-baseline';
+  const files = comparison?.files ?? [];
+  const failureReasons = getFailureReasons(report, inputs);
+  const toFileList = (list: FileComparison[]) => capFiles(list.map(toTemplateFile), maxFiles);
+
+  return {
+    header: inputs.commentHeader,
+    hasBaseline: comparison !== undefined,
+    status,
+    improved: status === 'improved',
+    regressed: status === 'regressed',
+    unchanged: status === 'unchanged',
+    overallDelta: comparison ? formatDelta(comparison.overallDelta) : '',
+    result: determineResult(report),
+    passed: failureReasons.length === 0,
+    failureReasons,
+    baselineLabel: describeBaseline(report, inputs, (value) => `\`${value}\``),
+    baselineLabelHtml: describeBaseline(report, inputs, (value) => `<code>${value}</code>`),
+    baselineCommit: report.baselineCommitSha.slice(0, 7),
+    currentCommit: report.currentCommitSha.slice(0, 7),
+    context,
+    format: report.format,
+    threshold: formatThresholds(report.thresholds),
+    minimum: report.minimums ? formatMinimums(report.minimums) : '',
+    minimumFailures: (report.minimums?.checks ?? [])
+      .filter((check) => !check.passed)
+      .map(
+        (check) =>
+          `${capitalizeFirst(check.metric)} ${formatPercentage(check.actual)} (minimum ${check.minimum}%)`,
+      )
+      .join(', '),
+    metrics: METRICS.map((metric) => {
+      const compared = comparison?.metrics.find((m) => m.metric === metric);
+      const current = report.current[metric];
+      return {
+        name: capitalizeFirst(metric),
+        baseline: compared ? formatPercentage(compared.baseline.percentage) : '',
+        current: formatPercentage((compared?.current ?? current).percentage),
+        delta: compared ? formatDelta(compared.delta) : '',
+        covered: current.covered,
+        total: current.total,
+        improved: compared?.status === 'improved',
+        regressed: compared?.status === 'regressed',
+        unchanged: compared?.status === 'unchanged',
+      };
+    }),
+    policy: report.policy && {
+      passed: report.policy.passed,
+      violations: report.policy.rules.flatMap((rule) =>
+        rule.violations.map((violation) => formatPolicyViolation(rule.rule, violation)),
+      ),
+      rules: report.policy.rules.map((rule) => ({
+        rule: rule.rule,
+        files: rule.files,
+        baselineLines: rule.baseline ? formatPercentage(rule.baseline.lines.percentage) : '-',
+        currentLines: formatPercentage(rule.current.lines.percentage),
+        passed: rule.violations.length === 0,
+      })),
+    },
+    patch: report.patch && {
+      percentage: formatPercentage(report.patch.lines.percentage),
+      covered: report.patch.lines.covered,
+      total: report.patch.lines.total,
+      threshold: report.patch.threshold,
+      base: report.patch.base.slice(0, 7),
+      passed: report.patch.status === 'pass',
+      failed: report.patch.status === 'fail',
+      unavailable: report.patch.status === 'unavailable',
+      uncoveredFiles: capFiles(
+        report.patch.files
+          .filter((file) => file.uncoveredLines.length > 0)
+          .map((file) => ({
+            path: file.path,
+            shortPath: shortenPath(file.path),
+            percentage: formatPercentage(file.lines.percentage),
+            uncoveredLines: formatLineRanges(file.uncoveredLines),
+          })),
+        maxFiles,
+      ),
+    },
+    files: {
+      changed: toFileList(files.filter((f) => f.status !== 'added' && f.status !== 'removed')),
+      regressed: toFileList(files.filter((f) => f.status === 'regressed')),
+      improved: toFileList(files.filter((f) => f.status === 'improved')),
+      added: toFileList(files.filter((f) => f.status === 'added')),
+      removed: toFileList(files.filter((f) => f.status === 'removed')),
+    },
+    newFileMinCoverage: inputs.newFileMinCoverage?.toString() ?? '',
+    newFilesBelowMinimum: files.filter((f) => f.belowMinimum).length,
+    truncated: false,
+    uploadUrl: uploadResult.uploadUrl ?? '',
+    badgeUrl: uploadResult.badgeUrl ?? '',
+  };
+}
+
+/**
+ * Describe where the baseline came from, wrapping names and SHAs with the given code style
+ */
+function describeBaseline(
+  report: CoverageReport,
+  inputs: ActionInputs,
+  code: (value: string) => string,
+): string {
+  if (report.baselinePath) {
+    return code(report.baselinePath);
+  }
+
+  if (!report.comparison) {
+    const candidates = [
+      ...(report.baselineMergeBase
+        ? [`merge-base ${code(report.baselineMergeBase.slice(0, 7))}`]
+        : []),
+      ...inputs.baselineAliases.map((alias) => code(alias)),
+    ];
+    return `${candidates.join(', ')} (not found)`;
+  }
+
+  const commit = code(report.baselineCommitSha.slice(0, 7));
+  if (report.baselineAlias) {
+    return `${code(report.baselineAlias)} @ ${commit}`;
+  }
+  if (report.baselineCommitSha === report.baselineMergeBase) {
+    return `${commit} (merge-base)`;
+  }
+  return `${commit} (ancestor of merge-base ${code(report.baselineMergeBase?.slice(0, 7) ?? '')})`;
+}
+
+/**
+ * Remove files with the given statuses from every file list, counting them as "more"
+ */
+function omitFiles(data: TemplateData, omit: FileComparisonStatus[] | 'all'): TemplateData {
+  const keep = (file: TemplateFile) => omit !== 'all' && !omit.includes(file.status);
+  const collapse = <T>(list: TemplateFileList<T>, filter: (item: T) => boolean) => {
+    const items = list.items.filter(filter);
+    return {
+      items,
+      all: list.all.filter(filter),
+      count: list.count,
+      more: list.count - items.length,
+    };
+  };
+
+  return {
+    ...data,
+    truncated: true,
+    patch: data.patch && {
+      ...data.patch,
+      uncoveredFiles: collapse(data.patch.uncoveredFiles, () => omit !== 'all'),
+    },
+    files: {
+      changed: collapse(data.files.changed, keep),
+      regressed: collapse(data.files.regressed, keep),
+      improved: collapse(data.files.improved, keep),
+      added: collapse(data.files.added, keep),
+      removed: collapse(data.files.removed, keep),
+    },
+  };
+}
+
+function toTemplateFile(file: FileComparison): TemplateFile {
+  const metric = (name: CoverageMetricName) => toFileMetric(file.baseline, file.current, name);
+
+  return {
+    path: file.path,
+    shortPath: shortenPath(file.path),
+    status: file.status,
+    linesDelta: formatDelta(file.linesDelta),
+    belowMinimum: file.belowMinimum ?? false,
+    statements: metric('statements'),
+    branches: metric('branches'),
+    functions: metric('functions'),
+    lines: metric('lines'),
+  };
+}
+
+function toFileMetric(
+  baseline: CoverageSummary | undefined,
+  current: CoverageSummary | undefined,
+  metric: CoverageMetricName,
+): TemplateFileMetric {
+  return {
+    baseline: baseline ? formatPercentage(baseline[metric].percentage) : '',
+    current: current ? formatPercentage(current[metric].percentage) : '',
+    delta:
+      baseline && current
+        ? formatDelta(current[metric].percentage - baseline[metric].percentage)
+        : '',
+    covered: current?.[metric].covered ?? '',
+    total: current?.[metric].total ?? '',
+  };
+}
+
+function capFiles<T>(all: T[], maxFiles: number): TemplateFileList<T> {
+  return {
+    items: all.slice(0, maxFiles),
+    all,
+    count: all.length,
+    more: Math.max(all.length - maxFiles, 0),
+  };
+}
+
+/**
+ * Format a percentage value
+ */
+function formatPercentage(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+/**
+ * Format a delta value with sign
+ */
+function formatDelta(value: number): string {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(1)}%`;
+}
+
+/**
+ * Capitalize first letter
+ */
+function capitalizeFirst(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+/**
+ * Shorten a file path for display
+ */
+function shortenPath(filePath: string): string {
+  // If path is short enough, return as-is
+  if (filePath.length <= 50) {
+    return filePath;
+  }
+
+  // Otherwise, show last 50 chars with ellipsis
+  return '...' + filePath.slice(-47);
+}
@@ -2,15 +2,48 @@
 export interface ActionInputs {
   // Required
   path: string;
-  baselineAlias: string;
-  apiUrl: string;
-  apiKey: string;
+  baselineAliases: string[]; // Tried in order, required unless baselinePath is set
+  apiUrl: string; // Required unless baselinePath is set
+  apiKey: string; // Required unless baselinePath is set
+
+  // Local baseline, bypasses BFFLESS download
+  baselinePath?: string;
+  missingBaseline: MissingBaselineBehavior;
+  baselineStrategy: BaselineStrategy;
 
   // Format
   format: CoverageFormat | 'auto';
 
+  // File filters
+  include: string[]; // Globs, empty = all files
+  exclude: string[];
+
+  // Path normalization
+  pathReplace: PathReplacement[]; // Prefix rewrites applied before paths are made repo-relative
+  pathIgnoreCase: boolean;
+
   // Comparison
   threshold: number; // 0-100 percentage
+  thresholds: MetricThresholds; // Per-metric, defaulting to threshold
+  minimums: MetricMinimums; // Absolute floors, independent of the baseline
+  newFileMinCoverage?: number; // 0-100 percentage, unset = no requirement
+  policy?: string; // Path to a coverage policy file, unset = .github/coverage-policy.yml if present
+
+  // Patch coverage
+  patchCoverage: boolean;
+  patchThreshold: number; // 0-100 percentage
+  patchBase: string;
+
+  // SVG badge, unset unless badge-path is given
+  badge?: BadgeOptions;
+
+  // Markdown templates, the built-in layouts are used when unset
+  commentTemplate?: string;
+  summaryTemplate?: string;
+
+  // Check run with line annotations
+  checkRun: boolean;
+  checkRunName: string;
 
   // Upload
   uploadResults: boolean;
@@ -26,6 +59,8 @@ export interface ActionInputs {
   // PR Comment
   comment: boolean;
   commentHeader: string;
+  commentId: string; // Keys the hidden marker, so several jobs can keep separate comments
+  commentMode: CommentMode;
 }
 
 // Git Context
@@ -34,10 +69,41 @@ export interface GitContext {
   commitSha: string;
   branch: string;
   prNumber?: number;
+  baseSha?: string;
+}
+
+export type MissingBaselineBehavior = 'fail' | 'warn' | 'skip';
+
+export interface BadgeColorStop {
+  min: number; // Percentage from which the color applies
+  color: string; // Shields.io color name or hex code
 }
 
+export interface BadgeOptions {
+  path: string;
+  metric: CoverageMetricName;
+  label: string;
+  colors: BadgeColorStop[];
+}
+
+// How an earlier PR comment is handled: edited, deleted, collapsed, or kept unless the result changed
+export type CommentMode = 'update' | 'recreate' | 'minimize' | 'on-change';
+
+// How the BFFLESS baseline is looked up: by alias, or by the commit the branch started from
+export type BaselineStrategy = 'alias' | 'merge-base';
+
 // Coverage Formats
-export type CoverageFormat = 'lcov' | 'istanbul' | 'cobertura' | 'clover' | 'jacoco';
+export type CoverageFormat =
+  | 'lcov'
+  | 'istanbul'
+  | 'cobertura'
+  | 'clover'
+  | 'jacoco'
+  | 'gocover'
+  | 'coveragepy'
+  | 'llvmcov'
+  | 'opencover'
+  | 'coverlet';
 
 // Coverage Metrics
 export interface CoverageMetric {
@@ -46,6 +112,12 @@ export interface CoverageMetric {
   percentage: number;
 }
 
+export type CoverageMetricName = 'statements' | 'branches' | 'functions' | 'lines';
+
+export type MetricThresholds = Record<CoverageMetricName, number>;
+
+export type MetricMinimums = Partial<Record<CoverageMetricName, number>>;
+
 export interface CoverageSummary {
   statements: CoverageMetric;
   branches: CoverageMetric;
@@ -53,35 +125,75 @@ export interface CoverageSummary {
   lines: CoverageMetric;
 }
 
+export interface LineCoverage {
+  hits: number;
+  branches?: {
+    taken: number; // Branches on this line executed at least once
+    total: number;
+  };
+}
+
 export interface FileCoverage {
   path: string;
   statements: CoverageMetric;
   branches: CoverageMetric;
   functions: CoverageMetric;
   lines: CoverageMetric;
+  lineDetails?: Record<number, LineCoverage>; // Keyed by line number
+  module?: string; // Build module the file belongs to, e.g. a JaCoCo aggregate report group
+  classes?: ClassCoverage[]; // Per-class breakdown when a file holds several classes
+}
+
+// Coverage of one class within a file
+export interface ClassCoverage extends CoverageSummary {
+  name: string;
 }
 
 export interface NormalizedCoverage {
   format: CoverageFormat;
   summary: CoverageSummary;
   files: FileCoverage[];
+  sourceRoots?: string[]; // Roots that file paths are relative to (Cobertura <sources>)
+}
+
+// Path Normalization
+export interface PathReplacement {
+  from: string;
+  to: string;
+}
+
+export interface PathOptions {
+  workspace: string; // Absolute repo root, stripped from absolute paths
+  replacements: PathReplacement[];
 }
 
 // Comparison Types
 export type ComparisonStatus = 'improved' | 'regressed' | 'unchanged';
 
 export interface MetricComparison {
-  metric: 'statements' | 'branches' | 'functions' | 'lines';
+  metric: CoverageMetricName;
   baseline: CoverageMetric;
   current: CoverageMetric;
   delta: number;
+  threshold: number;
   status: ComparisonStatus;
 }
 
+export type FileComparisonStatus = ComparisonStatus | 'added' | 'removed';
+
 export interface FileComparison {
   path: string;
   linesDelta: number;
-  status: ComparisonStatus;
+  status: FileComparisonStatus;
+  baseline?: CoverageSummary; // Absent for added files
+  current?: CoverageSummary; // Absent for removed files
+  belowMinimum?: boolean; // Added file below newFileMinCoverage
+}
+
+export interface ComparisonOptions {
+  thresholds: MetricThresholds;
+  newFileMinCoverage?: number;
+  ignoreCase?: boolean; // Match baseline and current paths case-insensitively
 }
 
 export interface CoverageComparison {
@@ -91,44 +203,231 @@ export interface CoverageComparison {
   overallDelta: number; // Average of all metric deltas
 }
 
+// Minimum Coverage Gate
+export interface MinimumCheck {
+  metric: CoverageMetricName;
+  minimum: number;
+  actual: number;
+  passed: boolean;
+}
+
+export interface MinimumGateResult {
+  passed: boolean;
+  checks: MinimumCheck[];
+}
+
+// Coverage Policy
+export interface PolicyRule {
+  paths: string[]; // Glob patterns the rule applies to
+  thresholds: Partial<MetricThresholds>; // Allowed regression per metric
+  minimums: MetricMinimums;
+  ignore: boolean; // Drop matching files from every comparison
+}
+
+export interface CoveragePolicy {
+  rules: PolicyRule[];
+}
+
+export interface PolicyViolation {
+  metric: CoverageMetricName;
+  kind: 'regression' | 'minimum';
+  value: number; // Delta for regressions, current percentage for minimums
+  limit: number; // Threshold or minimum that was exceeded
+}
+
+export interface PolicyRuleResult {
+  rule: string; // Display name, the rule's patterns joined
+  files: number; // Current files matched by the rule
+  baseline?: CoverageSummary; // Unset when no baseline files match
+  current: CoverageSummary;
+  violations: PolicyViolation[];
+}
+
+export interface PolicyResult {
+  passed: boolean;
+  rules: PolicyRuleResult[];
+}
+
+// Patch Coverage
+export interface PatchFileCoverage {
+  path: string;
+  lines: CoverageMetric;
+  uncoveredLines: number[];
+}
+
+export interface PatchCoverage {
+  base: string;
+  lines: CoverageMetric;
+  threshold: number;
+  status: 'pass' | 'fail' | 'unavailable'; // Unavailable when the format has no per-line data
+  files: PatchFileCoverage[];
+}
+
+// Uncovered lines annotated on the PR
+export interface UncoveredChange {
+  path: string;
+  startLine: number;
+  endLine: number;
+  kind: 'added' | 'uncovered'; // Changed in the PR, or covered in the baseline but no longer
+}
+
 export interface CoverageReport {
   timestamp: string;
-  baselineAlias: string;
+  baselineAlias?: string; // Alias the baseline was found under
   baselineCommitSha: string;
+  baselineMergeBase?: string; // Merge-base the commit lookup started from
+  baselinePath?: string; // Set when the baseline was read from local files
   currentCommitSha: string;
   threshold: number;
+  thresholds: MetricThresholds;
   format: CoverageFormat;
-  baseline: CoverageSummary;
+  baseline?: CoverageSummary; // Unset when no baseline exists yet
   current: CoverageSummary;
-  comparison: CoverageComparison;
+  comparison?: CoverageComparison; // Unset when no baseline exists yet
+  minimums?: MinimumGateResult;
+  policy?: PolicyResult;
+  patch?: PatchCoverage;
+  uncoveredChanges?: UncoveredChange[]; // Only computed for check runs
 }
 
 export interface BaselineResult {
   commitSha: string;
+  alias?: string; // Unset when found by commit or read from local files
+  mergeBase?: string; // Set when baseline-strategy is merge-base
   isPublic: boolean;
-  outputDir: string;
+  outputDir?: string; // Temp download directory, unset for local baselines
   fileCount: number;
   files: string[];
   coverage?: NormalizedCoverage;
 }
 
+// Template Data
+// Values rendered by the comment and summary templates, pre-formatted for display
+export interface TemplateData {
+  header: string; // comment-header input
+  hasBaseline: boolean;
+  status: ComparisonStatus | 'no-baseline';
+  improved: boolean;
+  regressed: boolean;
+  unchanged: boolean;
+  overallDelta: string; // e.g. "+1.2%", empty without a baseline
+  result: ActionOutputs['result'];
+  passed: boolean; // No coverage gate failed
+  failureReasons: string[];
+  baselineLabel: string; // Markdown, e.g. "`coverage-production` @ `abc1234`"
+  baselineLabelHtml: string; // Same with <code> tags, for use inside HTML
+  baselineCommit: string; // Short SHA, empty for local or missing baselines
+  currentCommit: string; // Short SHA
+  context: GitContext;
+  format: CoverageFormat;
+  threshold: string; // e.g. "0%" or "Statements 0% · Branches 2% · ..."
+  minimum: string; // Configured minimums, empty when none
+  minimumFailures: string; // e.g. "Lines 38.2% (minimum 50%)", empty when met
+  metrics: TemplateMetric[];
+  policy?: TemplatePolicy;
+  patch?: TemplatePatch;
+  files: {
+    changed: TemplateFileList<TemplateFile>; // Regressed, improved and within-threshold files
+    regressed: TemplateFileList<TemplateFile>;
+    improved: TemplateFileList<TemplateFile>;
+    added: TemplateFileList<TemplateFile>;
+    removed: TemplateFileList<TemplateFile>;
+  };
+  newFileMinCoverage: string; // Empty when unset
+  newFilesBelowMinimum: number;
+  truncated: boolean; // File lists were cut to fit GitHub's size limit
+  uploadUrl: string;
+  badgeUrl: string;
+}
+
+export interface TemplateMetric {
+  name: string; // e.g. "Branches"
+  baseline: string; // Percentages like "81.2%", empty without a baseline
+  current: string;
+  delta: string;
+  covered: number;
+  total: number;
+  improved: boolean;
+  regressed: boolean;
+  unchanged: boolean;
+}
+
+export interface TemplateFileMetric {
+  baseline: string; // Empty for added files
+  current: string; // Empty for removed files
+  delta: string; // Empty unless on both sides
+  covered: number | ''; // Current counts, empty for removed files
+  total: number | '';
+}
+
+export interface TemplateFile {
+  path: string;
+  shortPath: string; // At most 50 characters
+  status: FileComparisonStatus;
+  linesDelta: string;
+  belowMinimum: boolean;
+  statements: TemplateFileMetric;
+  branches: TemplateFileMetric;
+  functions: TemplateFileMetric;
+  lines: TemplateFileMetric;
+}
+
+export interface TemplateFileList<T> {
+  items: T[]; // Capped at the renderer's file limit (20 in comments, 10 in summaries)
+  all: T[];
+  count: number;
+  more: number; // Files left out of items
+}
+
+export interface TemplatePolicy {
+  passed: boolean;
+  violations: string[]; // e.g. "src/legacy/**: lines 39.0% < 40% minimum"
+  rules: Array<{
+    rule: string;
+    files: number;
+    baselineLines: string; // "-" without a baseline
+    currentLines: string;
+    passed: boolean;
+  }>;
+}
+
+export interface TemplatePatch {
+  percentage: string;
+  covered: number;
+  total: number;
+  threshold: number;
+  base: string; // Short SHA or ref
+  passed: boolean;
+  failed: boolean;
+  unavailable: boolean;
+  uncoveredFiles: TemplateFileList<{
+    path: string;
+    shortPath: string;
+    percentage: string;
+    uncoveredLines: string; // e.g. "1-3, 7"
+  }>;
+}
+
 // Action Outputs
 export interface ActionOutputs {
   statements: number;
   branches: number;
   functions: number;
   lines: number;
-  statementsDelta: number;
-  branchesDelta: number;
-  functionsDelta: number;
-  linesDelta: number;
-  result: 'pass' | 'fail' | 'improved';
+  statementsDelta?: number; // Deltas are unset without a baseline
+  branchesDelta?: number;
+  functionsDelta?: number;
+  linesDelta?: number;
+  result: 'pass' | 'fail' | 'improved' | 'no-baseline';
   report: string;
   baselineCommitSha: string;
+  patchCoverage?: number;
   uploadUrl?: string;
+  badgeUrl?: string;
 }
 
 // Upload Result
 export interface UploadResult {
   uploadUrl?: string;
+  badgeUrl?: string; // Alias URL of the uploaded badge, stable across runs
 }
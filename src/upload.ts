@@ -9,39 +9,46 @@ import {
   FileInfo,
 } from '@bffless/artifact-client';
 import * as mimeTypes from 'mime-types';
+import { resolveCoverageFiles, splitPathInput } from './parse';
 
 /**
- * Upload coverage file to BFFLESS
+ * Upload coverage files to BFFLESS
+ * With an HTML report, it is uploaded alongside and the upload URL points at it
  */
 export async function uploadResults(
   inputs: ActionInputs,
   context: GitContext,
+  htmlReportPath?: string,
 ): Promise<UploadResult> {
   const result: UploadResult = {};
 
   // Get the coverage file info
-  const coveragePath = path.resolve(inputs.path);
+  let coveragePaths: string[];
 
-  if (!fs.existsSync(coveragePath)) {
-    core.warning(`Coverage file not found: ${coveragePath}`);
+  try {
+    coveragePaths = resolveCoverageFiles(splitPathInput(inputs.path));
+  } catch (error) {
+    core.warning(
+      `Coverage file not found: ${error instanceof Error ? error.message : String(error)}`,
+    );
     return result;
   }
 
-  const stat = fs.statSync(coveragePath);
-  if (!stat.isFile()) {
-    core.warning(`Coverage path is not a file: ${coveragePath}`);
-    return result;
+  // Upload the HTML report and badge alongside the coverage files so they are served too
+  if (htmlReportPath && fs.existsSync(htmlReportPath)) {
+    coveragePaths.push(path.resolve(htmlReportPath));
+  }
+  if (inputs.badge && fs.existsSync(inputs.badge.path)) {
+    coveragePaths.push(path.resolve(inputs.badge.path));
   }
 
-  const relativePath = inputs.path.replace(/^\.\//, '');
-  const contentType = mimeTypes.lookup(coveragePath) || 'application/octet-stream';
-
-  const fileInfo: FileInfo = {
+  // Keep paths relative to the workspace so the baseline download can find them again
+  const fileInfos: FileInfo[] = coveragePaths.map((coveragePath) => ({
     absolutePath: coveragePath,
-    relativePath,
-    size: stat.size,
-    contentType,
-  };
+    relativePath: path.relative(process.cwd(), coveragePath).replace(/\\/g, '/'),
+    size: fs.statSync(coveragePath).size,
+    contentType: mimeTypes.lookup(coveragePath) || 'application/octet-stream',
+  }));
 
   core.info(`Uploading coverage to alias: ${inputs.alias}`);
 
@@ -53,13 +60,11 @@ export async function uploadResults(
       branch: context.branch,
       alias: inputs.alias,
       description: `Coverage report for ${context.prNumber ? `PR #${context.prNumber}` : context.commitSha.slice(0, 7)}`,
-      files: [
-        {
-          path: relativePath,
-          size: fileInfo.size,
-          contentType: fileInfo.contentType,
-        },
-      ],
+      files: fileInfos.map((fileInfo) => ({
+        path: fileInfo.relativePath,
+        size: fileInfo.size,
+        contentType: fileInfo.contentType,
+      })),
     });
 
     // Check if presigned URLs are supported
@@ -76,25 +81,25 @@ export async function uploadResults(
       `Received ${prepareResponse.files.length} presigned URLs (expires: ${prepareResponse.expiresAt})`,
     );
 
-    // Get presigned URL for the coverage file
-    const urlInfo = prepareResponse.files.find((f) => f.path === relativePath);
-    if (!urlInfo) {
-      throw new Error(`No presigned URL for coverage file: ${relativePath}`);
-    }
+    // Get presigned URL for each coverage file
+    const presignedFiles = prepareResponse.files;
+    const uploads = fileInfos.map((fileInfo) => {
+      const urlInfo = presignedFiles.find((f) => f.path === fileInfo.relativePath);
+      if (!urlInfo) {
+        throw new Error(`No presigned URL for coverage file: ${fileInfo.relativePath}`);
+      }
+      return { file: fileInfo, presignedUrl: urlInfo.presignedUrl };
+    });
 
-    // Upload file
-    core.info('Uploading coverage file to storage...');
-    const uploadResults = await uploadFilesWithPresignedUrls(
-      [{ file: fileInfo, presignedUrl: urlInfo.presignedUrl }],
-      1,
-      3,
-    );
+    // Upload files
+    core.info(`Uploading ${uploads.length} coverage file(s) to storage...`);
+    const uploadResults = await uploadFilesWithPresignedUrls(uploads, 5, 3);
 
     if (uploadResults.failed.length > 0) {
       throw new Error(`Upload failed: ${uploadResults.failed[0].error}`);
     }
 
-    core.info('Successfully uploaded coverage file');
+    core.info('Successfully uploaded coverage files');
 
     // Finalize upload
     const response = await finalizeUpload(inputs.apiUrl, inputs.apiKey, {
@@ -105,7 +110,15 @@ export async function uploadResults(
     core.info(`Deployment ID: ${response.deploymentId}`);
 
     result.uploadUrl = response.urls.sha || response.urls.alias;
+    if (htmlReportPath && result.uploadUrl) {
+      result.uploadUrl = getFileUrl(result.uploadUrl, htmlReportPath);
+    }
     core.info(`Coverage uploaded: ${result.uploadUrl}`);
+
+    if (inputs.badge && response.urls.alias) {
+      result.badgeUrl = getFileUrl(response.urls.alias, inputs.badge.path);
+      core.info(`Badge URL: ${result.badgeUrl}`);
+    }
   } catch (error) {
     core.warning(
       `Failed to upload coverage: ${error instanceof Error ? error.message : String(error)}`,
@@ -114,3 +127,11 @@ export async function uploadResults(
 
   return result;
 }
+
+/**
+ * URL of an uploaded file under a deployment URL
+ */
+function getFileUrl(baseUrl: string, filePath: string): string {
+  const relativePath = path.relative(process.cwd(), filePath).replace(/\\/g, '/');
+  return `${baseUrl.replace(/\/$/, '')}/${relativePath}`;
+}